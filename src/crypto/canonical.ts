@@ -0,0 +1,46 @@
+/**
+ * Canonical Serialization for Signed Protocol Objects
+ *
+ * Produces a deterministic JSON encoding (sorted keys, no whitespace,
+ * undefined members dropped) so that signatures and hashes computed on
+ * one node verify on every other node regardless of property order.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Encode a value as canonical JSON
+ *
+ * Object keys are sorted lexicographically, `undefined` members are
+ * omitted and arrays keep their order. Sets and Maps are not supported:
+ * protocol objects must be plain JSON data.
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol') {
+      throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * SHA-256 hex digest of the canonical encoding of a value
+ */
+export function hashCanonical(value: unknown): string {
+  return createHash('sha256').update(canonicalize(value), 'utf-8').digest('hex');
+}
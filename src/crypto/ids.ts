@@ -0,0 +1,51 @@
+/**
+ * Shared Identifier Generation
+ *
+ * Two kinds of IDs are used across the implementation:
+ * - Random IDs: UUIDv7 (millisecond timestamp + 74 random bits), time-ordered
+ *   and collision-resistant, for new entities such as proposals and nodes.
+ * - Content-addressed IDs: SHA-256 over the canonical payload, so the same
+ *   vote or certificate always gets the same ID and retransmissions can be
+ *   deduplicated.
+ */
+
+import { randomBytes } from 'crypto';
+import { hashCanonical } from './canonical.js';
+
+const CONTENT_ID_LENGTH = 32;  // hex chars (128 bits) of the SHA-256 digest
+
+/**
+ * Generate a UUIDv7 string (RFC 9562)
+ */
+export function uuidv7(timestamp: number = Date.now()): string {
+  const bytes = randomBytes(16);
+
+  // 48-bit big-endian Unix timestamp in milliseconds
+  let time = timestamp;
+  for (let i = 5; i >= 0; i--) {
+    bytes[i] = time % 256;
+    time = Math.floor(time / 256);
+  }
+
+  bytes[6] = (bytes[6] & 0x0f) | 0x70;  // version 7
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;  // RFC 4122 variant
+
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Generate a random, time-ordered ID with a type prefix
+ */
+export function generateId(prefix: string): string {
+  return `${prefix}-${uuidv7()}`;
+}
+
+/**
+ * Derive a content-addressed ID with a type prefix
+ *
+ * Equal payloads (after canonical encoding) always yield equal IDs.
+ */
+export function contentId(prefix: string, payload: unknown): string {
+  return `${prefix}-${hashCanonical(payload).slice(0, CONTENT_ID_LENGTH)}`;
+}
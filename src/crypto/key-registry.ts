@@ -0,0 +1,246 @@
+/**
+ * Key Registry for Vertex and Voter Identities
+ *
+ * Binds DecisionVertex / voter / node IDs to Ed25519 public keys, with key
+ * rotation and revocation. Consensus, protocol and networking layers use a
+ * registry to drop votes from unknown or revoked identities.
+ */
+
+import * as fs from 'fs/promises';
+import { isValidPublicKey } from './signatures.js';
+
+export interface KeyRecord {
+  id: string;                 // Vertex, voter or node ID
+  publicKey: string;          // base64 SPKI Ed25519 key
+  status: 'active' | 'rotated' | 'revoked';
+  validFrom: string;          // ISO timestamp the key became active
+  validUntil?: string;        // ISO timestamp the key was rotated or revoked
+}
+
+export interface KeyRegistry {
+  /** Register the first key for an ID; fails if the ID already has an active key */
+  register(id: string, publicKey: string): KeyRecord;
+  /** Replace the active key of an ID; the old key stays valid for signatures made before now */
+  rotate(id: string, newPublicKey: string): KeyRecord;
+  /** Revoke one key of an ID, or every key of the ID; revoked keys are never trusted again */
+  revoke(id: string, publicKey?: string): void;
+  /** Active key for an ID, if any */
+  getActiveKey(id: string): string | undefined;
+  /** Whether the key belongs to the ID and was valid at `at` (default: now) */
+  isTrusted(id: string, publicKey: string, at?: string): boolean;
+  /** All key records for an ID, oldest first */
+  getHistory(id: string): KeyRecord[];
+  /** IDs with an active key */
+  getIds(): string[];
+}
+
+/**
+ * In-memory key registry
+ */
+export class InMemoryKeyRegistry implements KeyRegistry {
+  protected records: Map<string, KeyRecord[]>;
+
+  constructor(records: KeyRecord[] = []) {
+    this.records = new Map();
+    records.forEach(record => {
+      const history = this.records.get(record.id) || [];
+      history.push({ ...record });
+      this.records.set(record.id, history);
+    });
+  }
+
+  register(id: string, publicKey: string): KeyRecord {
+    if (this.getActiveKey(id)) {
+      throw new Error(`Identity ${id} already has an active key; use rotate()`);
+    }
+    return this.addKey(id, publicKey);
+  }
+
+  rotate(id: string, newPublicKey: string): KeyRecord {
+    const active = this.getActiveRecord(id);
+    if (!active) {
+      throw new Error(`Identity ${id} has no active key to rotate`);
+    }
+    if (active.publicKey === newPublicKey) {
+      throw new Error(`New key for ${id} is identical to the active key`);
+    }
+
+    active.status = 'rotated';
+    active.validUntil = new Date().toISOString();
+    return this.addKey(id, newPublicKey);
+  }
+
+  revoke(id: string, publicKey?: string): void {
+    const history = this.records.get(id);
+    if (!history || history.length === 0) {
+      throw new Error(`Unknown identity: ${id}`);
+    }
+
+    const now = new Date().toISOString();
+    const targets = history.filter(record => !publicKey || record.publicKey === publicKey);
+    if (targets.length === 0) {
+      throw new Error(`Key not registered for ${id}`);
+    }
+
+    targets.forEach(record => {
+      if (record.status !== 'revoked') {
+        record.status = 'revoked';
+        record.validUntil = record.validUntil || now;
+      }
+    });
+  }
+
+  getActiveKey(id: string): string | undefined {
+    return this.getActiveRecord(id)?.publicKey;
+  }
+
+  isTrusted(id: string, publicKey: string, at?: string): boolean {
+    const record = (this.records.get(id) || []).find(r => r.publicKey === publicKey);
+    if (!record || record.status === 'revoked') {
+      return false;
+    }
+
+    if (!at) {
+      return record.status === 'active';
+    }
+
+    const time = new Date(at).getTime();
+    if (isNaN(time) || time < new Date(record.validFrom).getTime()) {
+      return false;
+    }
+    return !record.validUntil || time < new Date(record.validUntil).getTime();
+  }
+
+  getHistory(id: string): KeyRecord[] {
+    return (this.records.get(id) || []).map(record => ({ ...record }));
+  }
+
+  getIds(): string[] {
+    return Array.from(this.records.keys()).filter(id => this.getActiveKey(id) !== undefined);
+  }
+
+  /**
+   * Snapshot of every record, for persistence
+   */
+  toRecords(): KeyRecord[] {
+    return Array.from(this.records.values()).flat().map(record => ({ ...record }));
+  }
+
+  private getActiveRecord(id: string): KeyRecord | undefined {
+    return (this.records.get(id) || []).find(record => record.status === 'active');
+  }
+
+  private addKey(id: string, publicKey: string): KeyRecord {
+    if (!isValidPublicKey(publicKey)) {
+      throw new Error(`Invalid Ed25519 public key for ${id}`);
+    }
+
+    const record: KeyRecord = {
+      id,
+      publicKey,
+      status: 'active',
+      validFrom: new Date().toISOString()
+    };
+
+    const history = this.records.get(id) || [];
+    history.push(record);
+    this.records.set(id, history);
+
+    return { ...record };
+  }
+}
+
+export interface KeyRegistryFileFormat {
+  version: number;
+  keys: KeyRecord[];
+}
+
+/**
+ * Key registry persisted to a JSON file
+ *
+ * Every mutation is written through to disk; call flush() to wait for
+ * pending writes before exiting. A failed write is logged and reported by
+ * flush(); the registry stays usable in memory, and the next successful
+ * write stores the full state again.
+ */
+export class JsonFileKeyRegistry extends InMemoryKeyRegistry {
+  private filePath: string;
+  private pendingWrite: Promise<void>;
+  private writeError?: Error;
+
+  constructor(filePath: string, records: KeyRecord[] = []) {
+    super(records);
+    this.filePath = filePath;
+    this.pendingWrite = Promise.resolve();
+  }
+
+  /**
+   * Load a registry from disk; a missing file yields an empty registry
+   */
+  static async load(filePath: string): Promise<JsonFileKeyRegistry> {
+    try {
+      const fileContent = await fs.readFile(filePath, 'utf-8');
+      const registryFile: KeyRegistryFileFormat = JSON.parse(fileContent);
+
+      if (!Array.isArray(registryFile.keys)) {
+        throw new Error('Invalid key registry file format');
+      }
+
+      return new JsonFileKeyRegistry(filePath, registryFile.keys);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new JsonFileKeyRegistry(filePath);
+      }
+      throw new Error(`Failed to load key registry from ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  register(id: string, publicKey: string): KeyRecord {
+    const record = super.register(id, publicKey);
+    this.persist();
+    return record;
+  }
+
+  rotate(id: string, newPublicKey: string): KeyRecord {
+    const record = super.rotate(id, newPublicKey);
+    this.persist();
+    return record;
+  }
+
+  revoke(id: string, publicKey?: string): void {
+    super.revoke(id, publicKey);
+    this.persist();
+  }
+
+  /**
+   * Wait until all pending writes have reached disk
+   *
+   * Rejects if the latest write failed.
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+    if (this.writeError) {
+      throw new Error(`Failed to write key registry to ${this.filePath}: ${this.writeError.message}`);
+    }
+  }
+
+  private persist(): void {
+    const registryFile: KeyRegistryFileFormat = {
+      version: 1,
+      keys: this.toRecords()
+    };
+    const content = JSON.stringify(registryFile, null, 2);
+
+    this.pendingWrite = this.pendingWrite
+      .then(() => fs.writeFile(this.filePath, content, 'utf-8'))
+      .then(
+        () => {
+          this.writeError = undefined;
+        },
+        (error: Error) => {
+          this.writeError = error;
+          console.error(`Error writing key registry to ${this.filePath}:`, error);
+        }
+      );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Ed25519 Signatures for Geometric Protocol Objects
+ *
+ * Thin wrapper around Node's crypto Ed25519 support. Keys travel as
+ * base64-encoded DER (SPKI for public keys, PKCS#8 for private keys) and
+ * signatures as base64 strings, so every value fits in JSON messages.
+ */
+
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, KeyObject } from 'crypto';
+import { canonicalize } from './canonical.js';
+
+export interface SigningKeyPair {
+  publicKey: string;   // base64 SPKI DER
+  privateKey: string;  // base64 PKCS#8 DER
+}
+
+/**
+ * Generate a fresh Ed25519 key pair
+ */
+export function generateSigningKeyPair(): SigningKeyPair {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+
+  return {
+    publicKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+    privateKey: privateKey.export({ format: 'der', type: 'pkcs8' }).toString('base64')
+  };
+}
+
+/**
+ * Sign the canonical encoding of a payload
+ */
+export function signPayload(payload: unknown, privateKey: string): string {
+  const data = Buffer.from(canonicalize(payload), 'utf-8');
+  return sign(null, data, toPrivateKeyObject(privateKey)).toString('base64');
+}
+
+/**
+ * Verify a signature over the canonical encoding of a payload
+ *
+ * Returns false (never throws) for malformed keys or signatures.
+ */
+export function verifyPayload(payload: unknown, signature: string, publicKey: string): boolean {
+  try {
+    const data = Buffer.from(canonicalize(payload), 'utf-8');
+    return verify(null, data, toPublicKeyObject(publicKey), Buffer.from(signature, 'base64'));
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Check that a string is a well-formed Ed25519 public key
+ */
+export function isValidPublicKey(publicKey: string): boolean {
+  try {
+    return toPublicKeyObject(publicKey).asymmetricKeyType === 'ed25519';
+  } catch (error) {
+    return false;
+  }
+}
+
+function toPrivateKeyObject(privateKey: string): KeyObject {
+  return createPrivateKey({ key: Buffer.from(privateKey, 'base64'), format: 'der', type: 'pkcs8' });
+}
+
+function toPublicKeyObject(publicKey: string): KeyObject {
+  return createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+}
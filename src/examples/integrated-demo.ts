@@ -66,7 +66,15 @@ export function runIntegratedDemo(): boolean {
     { id: 'partition2_node2', name: 'Partition B Node 2', agrees: false, justification: 'Partition B - disagrees' }
   ];
 
-  const partitionInfo = partitionDetector.detectViaBettiNumbers(partitionedVotes);
+  // Each side still reaches its own members, but not the other side
+  const reachability = {
+    edges: [
+      { from: 'partition1_node1', to: 'partition1_node2' },
+      { from: 'partition2_node1', to: 'partition2_node2' }
+    ]
+  };
+
+  const partitionInfo = partitionDetector.detectViaBettiNumbers(partitionedVotes, reachability);
   console.log(`Partition detected: ${partitionInfo.isPartitioned}`);
   console.log(`Number of partitions: ${partitionInfo.partitionCount}`);
 
@@ -150,7 +158,8 @@ export function runIntegratedDemo(): boolean {
     host: '127.0.0.1',
     maxMessageSize: 1024,
     timeout: 5000,
-    retryAttempts: 3
+    retryAttempts: 3,
+    peers: [{ host: '127.0.0.1', port: 3001 }]
   });
 
   // Set up message handlers
@@ -9,14 +9,17 @@ import { UDPGeometricServer, UDPServerConfig } from '../networking/udp-server.js
 
 /**
  * Start a UDP server for demo purposes
+ *
+ * @param peerPorts Ports of other local servers to join on start
  */
-export async function startUDPServer(port: number): Promise<UDPGeometricServer> {
+export async function startUDPServer(port: number, peerPorts: number[] = []): Promise<UDPGeometricServer> {
   const config: UDPServerConfig = {
     port,
     host: 'localhost',
     maxMessageSize: 8192,
     timeout: 5000,
-    retryAttempts: 3
+    retryAttempts: 3,
+    peers: peerPorts.map(peerPort => ({ host: 'localhost', port: peerPort }))
   };
 
   const server = new UDPGeometricServer(config);
@@ -37,8 +40,10 @@ export async function stopAllServers(servers: UDPGeometricServer[]): Promise<voi
 export async function createNetworkTopology(ports: number[]): Promise<UDPGeometricServer[]> {
   const servers: UDPGeometricServer[] = [];
 
+  // Each server seeds with the servers started before it; the join
+  // handshake then propagates the full peer list
   for (const port of ports) {
-    const server = await startUDPServer(port);
+    const server = await startUDPServer(port, ports.slice(0, servers.length));
     servers.push(server);
   }
 
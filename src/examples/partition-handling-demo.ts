@@ -75,9 +75,12 @@ export function runPartitionHandlingDemo(): boolean {
   verticesForPartition[2].connected.add(verticesForPartition[3].id);
   verticesForPartition[3].connected.add(verticesForPartition[2].id);
 
-  // Note: edgesForPartition is not used as detectViaBettiNumbers only needs DecisionVertex[]
+  const edgesForPartition: Edge[] = [
+    { id: 'p1', from: 'node1', to: 'node2' },
+    { id: 'p2', from: 'node3', to: 'node4' }
+  ];
 
-  const partitionInfo = partitionDetector.detectViaBettiNumbers(decisionVertices);
+  const partitionInfo = partitionDetector.detectViaBettiNumbers(decisionVertices, { edges: edgesForPartition });
   console.log(`Partition detected: ${partitionInfo.isPartitioned}`);
   console.log(`Number of partitions: ${partitionInfo.partitionCount}`);
   console.log(`Betti numbers: β₀=${partitionInfo.bettiNumbers.beta_0}, β₁=${partitionInfo.bettiNumbers.beta_1}, β₂=${partitionInfo.bettiNumbers.beta_2}\n`);
@@ -92,7 +95,7 @@ export function runPartitionHandlingDemo(): boolean {
 
   console.log(`Original type: ${GeometricType[originalType]}`);
   console.log(`Partition count: ${partitionCount}`);
-  console.log(`Decomposed type: ${GeometricType[decomposedType]}\n`);
+  console.log(`Decomposed type: ${decomposedType}\n`);
 
   // Example 4: Dual-based partition recovery
   console.log('4. Dual-Based Partition Recovery:');
@@ -116,7 +119,7 @@ export function runPartitionHandlingDemo(): boolean {
 
   const recoveredResult = dualRecovery.recoverFromPartition(partitionCertificates, originalConsensusType);
 
-  console.log(`Recovered consensus type: ${GeometricType[recoveredResult.recoveredCertificate.geometricType]}`);
+  console.log(`Recovered consensus type: ${recoveredResult.recoveredCertificate.geometricType}`);
   console.log(`Recovered consensus valid: ${recoveredResult.success}`);
   console.log(`Recovered proof: ${recoveredResult.recoveredCertificate.proof}\n`);
 
@@ -153,9 +156,12 @@ export function runPartitionHandlingDemo(): boolean {
   workflowVertices[2].connected.add(workflowVertices[3].id);
   workflowVertices[3].connected.add(workflowVertices[2].id);
 
-  // Note: workflowEdges is not used as detectViaBettiNumbers only needs DecisionVertex[]
+  const workflowEdges: Edge[] = [
+    { id: 'w1', from: 'workflow1', to: 'workflow2' },
+    { id: 'w2', from: 'workflow3', to: 'workflow4' }
+  ];
 
-  const workflowPartitionInfo = partitionDetector.detectViaBettiNumbers(workflowDecisionVertices);
+  const workflowPartitionInfo = partitionDetector.detectViaBettiNumbers(workflowDecisionVertices, { edges: workflowEdges });
   console.log(`Step 1 - Partition detected: ${workflowPartitionInfo.isPartitioned}`);
 
   // Step 2: Achieve local consensus in each partition
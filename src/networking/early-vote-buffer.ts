@@ -0,0 +1,74 @@
+/**
+ * Early Vote Buffer
+ *
+ * Holds votes that arrive before the proposal they vote on, so a vote
+ * overtaking its proposal on the network is counted once the proposal
+ * arrives. The buffer is capped in size and age, and replays only votes
+ * received before the proposal expired.
+ */
+
+import { ConsensusProposal, ConsensusVote } from './geometric-protocol.js';
+
+interface BufferedVote {
+  vote: ConsensusVote;
+  receivedAt: number;
+}
+
+/**
+ * Bounded holding area for votes on proposals not seen yet
+ */
+export class EarlyVoteBuffer {
+  private maxVotes: number;
+  private maxAge: number;
+  private entries: BufferedVote[];  // Oldest first
+
+  constructor(maxVotes: number, maxAge: number) {
+    this.maxVotes = maxVotes;
+    this.maxAge = maxAge;
+    this.entries = [];
+  }
+
+  /**
+   * Hold a vote until its proposal arrives
+   *
+   * When the buffer is full the oldest vote is dropped.
+   */
+  add(vote: ConsensusVote, now: number = Date.now()): void {
+    this.expire(now);
+    this.entries.push({ vote, receivedAt: now });
+    if (this.entries.length > this.maxVotes) {
+      this.entries.shift();
+    }
+  }
+
+  /**
+   * Remove and return the votes held for a proposal
+   *
+   * Votes received after the proposal's expirationTime are discarded.
+   */
+  take(proposal: ConsensusProposal, now: number = Date.now()): ConsensusVote[] {
+    this.expire(now);
+
+    const expiresAt = new Date(proposal.expirationTime).getTime();
+    const taken = this.entries.filter(entry => entry.vote.proposalId === proposal.proposalId);
+    this.entries = this.entries.filter(entry => entry.vote.proposalId !== proposal.proposalId);
+
+    return taken
+      .filter(entry => entry.receivedAt <= expiresAt)
+      .map(entry => entry.vote);
+  }
+
+  /**
+   * Drop votes held longer than the maximum age
+   */
+  expire(now: number = Date.now()): void {
+    this.entries = this.entries.filter(entry => now - entry.receivedAt < this.maxAge);
+  }
+
+  /**
+   * Number of votes currently held
+   */
+  size(): number {
+    return this.entries.length;
+  }
+}
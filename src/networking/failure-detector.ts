@@ -0,0 +1,122 @@
+/**
+ * Heartbeat Failure Detector
+ *
+ * Timeout-based failure detector driven by peer contact. A peer that has
+ * not been heard from within `suspectTimeout` becomes 'inactive' (suspected);
+ * after `failureTimeout` it is considered 'partitioned' and has left the
+ * membership. Any later contact brings it back to 'active'.
+ */
+
+import { NetworkNode } from './geometric-protocol.js';
+
+export type NodeStatus = NetworkNode['status'];
+
+export interface FailureDetectorOptions {
+  suspectTimeout: number;   // Silence (ms) before a peer is suspected
+  failureTimeout: number;   // Silence (ms) before a peer is declared gone
+}
+
+export interface MembershipEvent {
+  type: 'join' | 'leave' | 'suspect';
+  nodeId: string;
+  previousStatus?: NodeStatus;  // Absent for nodes seen for the first time
+  status: NodeStatus;
+  lastSeen: string;
+  timestamp: string;
+}
+
+interface PeerLiveness {
+  lastSeen: number;
+  status: NodeStatus;
+}
+
+/**
+ * Timeout-based failure detector
+ */
+export class FailureDetector {
+  private options: FailureDetectorOptions;
+  private liveness: Map<string, PeerLiveness>;
+
+  constructor(options: FailureDetectorOptions) {
+    if (options.suspectTimeout <= 0 || options.failureTimeout <= options.suspectTimeout) {
+      throw new Error('failureTimeout must be greater than a positive suspectTimeout');
+    }
+
+    this.options = options;
+    this.liveness = new Map();
+  }
+
+  /**
+   * Record contact from a peer
+   *
+   * Returns a join event when the peer is new or returns from the
+   * inactive/partitioned states.
+   */
+  heartbeat(nodeId: string, now: number = Date.now()): MembershipEvent | null {
+    const entry = this.liveness.get(nodeId);
+    const previousStatus = entry?.status;
+
+    this.liveness.set(nodeId, { lastSeen: Math.max(now, entry?.lastSeen || 0), status: 'active' });
+
+    if (previousStatus === 'active') {
+      return null;
+    }
+    return this.createEvent('join', nodeId, previousStatus, now);
+  }
+
+  /**
+   * Re-evaluate every peer against the timeouts
+   *
+   * Returns suspect events for peers that went quiet and leave events for
+   * peers that exceeded the failure timeout.
+   */
+  check(now: number = Date.now()): MembershipEvent[] {
+    const events: MembershipEvent[] = [];
+
+    this.liveness.forEach((entry, nodeId) => {
+      const silence = now - entry.lastSeen;
+      const previousStatus = entry.status;
+
+      if (silence >= this.options.failureTimeout && previousStatus !== 'partitioned') {
+        entry.status = 'partitioned';
+        events.push(this.createEvent('leave', nodeId, previousStatus, now));
+      } else if (silence >= this.options.suspectTimeout && previousStatus === 'active') {
+        entry.status = 'inactive';
+        events.push(this.createEvent('suspect', nodeId, previousStatus, now));
+      }
+    });
+
+    return events;
+  }
+
+  /**
+   * Current status of a peer, if tracked
+   */
+  getStatus(nodeId: string): NodeStatus | undefined {
+    return this.liveness.get(nodeId)?.status;
+  }
+
+  /**
+   * Stop tracking a peer
+   */
+  remove(nodeId: string): void {
+    this.liveness.delete(nodeId);
+  }
+
+  private createEvent(
+    type: MembershipEvent['type'],
+    nodeId: string,
+    previousStatus: NodeStatus | undefined,
+    now: number
+  ): MembershipEvent {
+    const entry = this.liveness.get(nodeId) as PeerLiveness;
+    return {
+      type,
+      nodeId,
+      previousStatus,
+      status: entry.status,
+      lastSeen: new Date(entry.lastSeen).toISOString(),
+      timestamp: new Date(now).toISOString()
+    };
+  }
+}
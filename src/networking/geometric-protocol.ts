@@ -6,7 +6,12 @@
  */
 
 import { BettiNumbers } from '../phase1-geometric-consensus/betti-numbers.js';
-import { GeometricType } from '../phase1-geometric-consensus/geometric-types.js';
+import { DynamicConnectivity } from '../phase1-geometric-consensus/connectivity.js';
+import { GeometricType, ShapeType, getConsensusKeyword, getGeometricShape } from '../phase1-geometric-consensus/geometric-types.js';
+import { AbstentionRule, VOTE_VALUES, VoteValue, ownVote, resolveVotes } from '../phase1-geometric-consensus/vote-resolution.js';
+import { signPayload, verifyPayload } from '../crypto/signatures.js';
+import { KeyRegistry } from '../crypto/key-registry.js';
+import { contentId, generateId } from '../crypto/ids.js';
 
 export interface GeometricMessage {
   id: string;
@@ -19,7 +24,7 @@ export interface GeometricMessage {
   geometricMetadata: {
     incidenceRelations: string[];
     topologicalProperties: BettiNumbers;
-    geometricType: GeometricType;
+    geometricType: ShapeType;
     threshold: number;
     consensusLevel: 'local' | 'federation' | 'global';
   };
@@ -30,7 +35,7 @@ export interface GeometricMessage {
 export interface ConsensusProposal {
   proposalId: string;
   proposer: string;
-  geometricType: GeometricType;
+  geometricType: ShapeType;
   participants: string[];
   decision: string;
   justification: string;
@@ -39,6 +44,8 @@ export interface ConsensusProposal {
   status: 'pending' | 'achieved' | 'failed' | 'timeout';
   timestamp: string;
   expirationTime: string;
+  abstentions?: AbstentionRule;  // Whether abstentions count toward the denominator (default 'count')
+  weights?: Record<string, number>;  // Vote weight per participant, set by the proposer; unlisted participants weigh 1
 }
 
 export interface ConsensusVote {
@@ -47,11 +54,20 @@ export interface ConsensusVote {
   voter: string;
   agrees: boolean;
   justification?: string;
-  weight?: number;
+  vote?: VoteValue;     // agree/disagree/abstain/veto; overrides agrees when set
+  delegateTo?: string;  // Participant whose resolved vote this voter adopts
   timestamp: string;
   signature?: string;
 }
 
+export interface EquivocationEvidence {
+  proposalId: string;
+  voter: string;
+  firstVote: ConsensusVote;        // Signed vote seen first
+  conflictingVote: ConsensusVote;  // Signed vote contradicting it
+  detectedAt: string;
+}
+
 export interface NetworkTopology {
   nodes: NetworkNode[];
   edges: NetworkEdge[];
@@ -90,6 +106,15 @@ export interface NetworkEdge {
  * Handles creation, validation, and processing of geometric protocol messages.
  */
 export class GeometricProtocol {
+  private keyRegistry?: KeyRegistry;
+
+  /**
+   * @param keyRegistry Optional registry; when set, only votes signed with
+   *                    the voter's active registered key are counted
+   */
+  constructor(keyRegistry?: KeyRegistry) {
+    this.keyRegistry = keyRegistry;
+  }
 
   /**
    * Create a geometric consensus message
@@ -98,12 +123,11 @@ export class GeometricProtocol {
     from: string,
     to: string,
     content: string,
-    geometricType: GeometricType,
+    geometricType: ShapeType,
     parents: string[] = [],
     group: string = 'default'
   ): GeometricMessage {
-    const message: GeometricMessage = {
-      id: this.generateMessageId(),
+    const message: Omit<GeometricMessage, 'id'> = {
       from,
       to,
       content,
@@ -120,25 +144,37 @@ export class GeometricProtocol {
       timestamp: new Date().toISOString()
     };
 
-    return message;
+    return {
+      id: contentId('msg', message),
+      ...message
+    };
   }
 
   /**
    * Create a consensus proposal
+   *
+   * Vote weights are fixed here, by the proposer, for every participant:
+   * a voter cannot choose its own weight.
    */
   createConsensusProposal(
     proposer: string,
-    geometricType: GeometricType,
+    geometricType: ShapeType,
     participants: string[],
     decision: string,
     justification: string,
-    expirationMinutes: number = 30
+    expirationMinutes: number = 30,
+    abstentions: AbstentionRule = 'count',
+    weights?: Record<string, number>
   ): ConsensusProposal {
+    if (weights && !this.hasValidWeights({ participants, weights })) {
+      throw new Error('Vote weights must be non-negative numbers for listed participants');
+    }
+
     const requiredAgreement = this.calculateRequiredAgreement(geometricType, participants.length);
     const expirationTime = new Date(Date.now() + expirationMinutes * 60 * 1000).toISOString();
 
     return {
-      proposalId: this.generateProposalId(),
+      proposalId: generateId('prop'),
       proposer,
       geometricType,
       participants,
@@ -148,27 +184,38 @@ export class GeometricProtocol {
       currentAgreement: 0,
       status: 'pending',
       timestamp: new Date().toISOString(),
-      expirationTime
+      expirationTime,
+      abstentions,
+      ...(weights ? { weights } : {})
     };
   }
 
   /**
    * Create a consensus vote
+   *
+   * `value` is either a plain yes/no or one of agree/disagree/abstain/veto.
+   * With `delegateTo`, the voter adopts that participant's resolved vote.
    */
   createConsensusVote(
     proposalId: string,
     voter: string,
-    agrees: boolean,
+    value: boolean | VoteValue,
     justification?: string,
-    weight: number = 1.0
+    delegateTo?: string
   ): ConsensusVote {
+    const agrees = value === true || value === 'agree';
+    const vote = typeof value === 'string' ? value : undefined;
+
+    // Content-addressed over the ballot (not the timestamp), so the same
+    // vote resent twice keeps the same ID
     return {
-      voteId: this.generateVoteId(),
+      voteId: contentId('vote', { proposalId, voter, agrees, justification, vote, delegateTo }),
       proposalId,
       voter,
       agrees,
       justification,
-      weight,
+      vote,
+      delegateTo,
       timestamp: new Date().toISOString()
     };
   }
@@ -222,41 +269,69 @@ export class GeometricProtocol {
     requiredCount: number;
     threshold: number;
     validVotes: ConsensusVote[];
+    equivocators: string[];
+    vetoedBy: string[];
   } {
     // Check if proposal has expired
     const now = new Date();
     const expiration = new Date(proposal.expirationTime);
 
-    if (now > expiration) {
+    // A proposal with malformed weights cannot be counted
+    if (now > expiration || !this.hasValidWeights(proposal)) {
       return {
-        status: 'timeout',
+        status: now > expiration ? 'timeout' : 'failed',
         agreementCount: 0,
         requiredCount: proposal.requiredAgreement,
         threshold: this.getThresholdForType(proposal.geometricType),
-        validVotes: []
+        validVotes: [],
+        equivocators: [],
+        vetoedBy: []
       };
     }
 
-    // Filter valid votes
-    const validVotes = votes.filter(vote =>
+    // Filter valid votes, then keep one per voter
+    const eligibleVotes = votes.filter(vote =>
       vote.proposalId === proposal.proposalId &&
-      proposal.participants.includes(vote.voter)
+      proposal.participants.includes(vote.voter) &&
+      this.hasValidBallot(vote) &&
+      this.isVoteFromRegisteredKey(vote)
     );
-
-    // Count agreements
-    const agreementCount = validVotes
-      .filter(vote => vote.agrees)
-      .reduce((sum, vote) => sum + (vote.weight || 1.0), 0);
-
-    const requiredCount = proposal.requiredAgreement;
+    const { votes: validVotes, evidence } = this.deduplicateVotes(eligibleVotes);
+    const equivocators = Array.from(new Set(evidence.map(e => e.voter)));
+
+    // Resolve delegations among the counted votes; a delegate who has not
+    // voted (yet) leaves the delegation unresolved, which abstains
+    const { values } = resolveVotes(validVotes.map(vote => ({ ...vote, id: vote.voter })));
+    const weightOf = (value: VoteValue) => validVotes
+      .filter((_, i) => values[i] === value)
+      .reduce((sum, vote) => sum + this.getParticipantWeight(proposal, vote.voter), 0);
+
+    // Count agreements by the weights the proposal assigns
+    const agreementCount = weightOf('agree');
+
+    // The threshold applies to total weight: requiredAgreement is scaled by
+    // the mean participant weight, leaving out abstentions if the proposal
+    // excludes them
+    const abstainingWeight = proposal.abstentions === 'exclude' ? weightOf('abstain') : 0;
+    const totalWeight = proposal.participants
+      .reduce((sum, participant) => sum + this.getParticipantWeight(proposal, participant), 0) - abstainingWeight;
+    const requiredCount = proposal.participants.length > 0
+      ? proposal.requiredAgreement * totalWeight / proposal.participants.length
+      : proposal.requiredAgreement;
     const threshold = this.getThresholdForType(proposal.geometricType);
 
+    // A single veto settles a MUST proposal
+    const vetoedBy = validVotes.filter((_, i) => values[i] === 'veto').map(vote => vote.voter);
+    const mustKeyword = getConsensusKeyword(getGeometricShape(proposal.geometricType)).startsWith('MUST_');
+
     // Determine status
     let status: 'pending' | 'achieved' | 'failed' | 'timeout' = 'pending';
 
-    if (agreementCount >= requiredCount) {
+    if (mustKeyword && vetoedBy.length > 0) {
+      status = 'failed';
+    } else if (agreementCount > 0 && agreementCount >= requiredCount) {
       status = 'achieved';
-    } else if (validVotes.length >= proposal.participants.length) {
+    } else if (validVotes.length + equivocators.length >= proposal.participants.length) {
       status = 'failed';
     }
 
@@ -265,10 +340,116 @@ export class GeometricProtocol {
       agreementCount,
       requiredCount,
       threshold,
-      validVotes
+      validVotes,
+      equivocators,
+      vetoedBy
     };
   }
 
+  /**
+   * Check whether two votes by the same voter on the same proposal conflict
+   *
+   * Votes conflict when they differ in value or delegation; a
+   * resent vote that only differs in timestamp or justification is a
+   * duplicate.
+   */
+  isConflictingVote(first: ConsensusVote, second: ConsensusVote): boolean {
+    return first.proposalId === second.proposalId &&
+           first.voter === second.voter &&
+           (ownVote(first) !== ownVote(second) ||
+            first.delegateTo !== second.delegateTo);
+  }
+
+  /**
+   * Reduce votes to one per voter per proposal
+   *
+   * Duplicates collapse onto the first vote seen. Voters who cast
+   * conflicting votes are reported as equivocation evidence and all of
+   * their votes on that proposal are dropped.
+   */
+  deduplicateVotes(votes: ConsensusVote[]): {
+    votes: ConsensusVote[];
+    evidence: EquivocationEvidence[];
+  } {
+    const firstVotes = new Map<string, ConsensusVote>();
+    const evidence: EquivocationEvidence[] = [];
+
+    votes.forEach(vote => {
+      const key = `${vote.proposalId}:${vote.voter}`;
+      const first = firstVotes.get(key);
+
+      if (!first) {
+        firstVotes.set(key, vote);
+      } else if (this.isConflictingVote(first, vote)) {
+        evidence.push({
+          proposalId: vote.proposalId,
+          voter: vote.voter,
+          firstVote: first,
+          conflictingVote: vote,
+          detectedAt: new Date().toISOString()
+        });
+      }
+    });
+
+    const equivocating = new Set(evidence.map(e => `${e.proposalId}:${e.voter}`));
+    const uniqueVotes = Array.from(firstVotes.entries())
+      .filter(([key]) => !equivocating.has(key))
+      .map(([, vote]) => vote);
+
+    return { votes: uniqueVotes, evidence };
+  }
+
+  /**
+   * Check a vote against the key registry
+   *
+   * Without a registry every vote passes; with one, the vote must carry a
+   * signature made by the voter's active (unrevoked) key.
+   */
+  isVoteFromRegisteredKey(vote: ConsensusVote): boolean {
+    if (!this.keyRegistry) {
+      return true;
+    }
+
+    const publicKey = this.keyRegistry.getActiveKey(vote.voter);
+    return !!publicKey && this.verifyVoteSignature(vote, publicKey);
+  }
+
+  /**
+   * Vote weight the proposal assigns to a participant
+   *
+   * Participants the proposal does not list weigh 1. Any weight a ballot
+   * declares for itself is ignored.
+   */
+  getParticipantWeight(proposal: Pick<ConsensusProposal, 'weights'>, participant: string): number {
+    return proposal.weights && Object.hasOwn(proposal.weights, participant) ? proposal.weights[participant] : 1.0;
+  }
+
+  /**
+   * Check a proposal's vote weights
+   *
+   * Every weight must belong to a participant and be finite and
+   * non-negative.
+   */
+  hasValidWeights(proposal: Pick<ConsensusProposal, 'participants' | 'weights'>): boolean {
+    if (proposal.weights === undefined) {
+      return true;
+    }
+    return typeof proposal.weights === 'object' && proposal.weights !== null &&
+           Object.entries(proposal.weights).every(([participant, weight]) =>
+             proposal.participants.includes(participant) && Number.isFinite(weight) && weight >= 0
+           );
+  }
+
+  /**
+   * Check the ballot fields of a vote
+   *
+   * A vote value must be known and a delegate a string.
+   */
+  private hasValidBallot(vote: ConsensusVote): boolean {
+    return (vote.vote === undefined || VOTE_VALUES.includes(vote.vote)) &&
+           (vote.delegateTo === undefined || typeof vote.delegateTo === 'string');
+  }
+
   /**
    * Build network topology from nodes and edges
    */
@@ -291,29 +472,30 @@ export class GeometricProtocol {
 
   /**
    * Calculate Betti numbers for network topology
+   *
+   * Uses disjoint-set connectivity, so large topologies need neither an
+   * n×n matrix nor deep recursion.
    */
   private calculateNetworkBettiNumbers(nodes: NetworkNode[], edges: NetworkEdge[]): BettiNumbers {
-    // Convert to vertex/edge format for Betti calculation
-    const vertices = nodes.map(node => ({
-      id: node.id,
-      name: node.id,
-      connected: new Set<string>()
-    }));
-
-    const networkEdges = edges.map(edge => ({
-      id: edge.id,
-      from: edge.from,
-      to: edge.to
-    }));
-
-    // Build adjacency matrix
-    const adjacency = this.buildAdjacencyMatrix(vertices, networkEdges);
+    const connectivity = new DynamicConnectivity(nodes.map(node => node.id));
+    const links = new Set<string>();
+
+    edges.forEach(edge => {
+      if (edge.from === edge.to || !connectivity.hasVertex(edge.from) || !connectivity.hasVertex(edge.to)) {
+        return;
+      }
+      const key = edge.from < edge.to ? `${edge.from}|${edge.to}` : `${edge.to}|${edge.from}`;
+      if (!links.has(key)) {
+        links.add(key);
+        connectivity.addEdge(edge.from, edge.to);
+      }
+    });
 
     // Calculate connected components (β₀)
-    const beta_0 = this.calculateConnectedComponents(vertices, adjacency);
+    const beta_0 = connectivity.componentCount();
 
     // Calculate cycles (β₁)
-    const beta_1 = Math.max(0, edges.length - nodes.length + beta_0);
+    const beta_1 = links.size - connectivity.vertexCount() + beta_0;
 
     // For network topology, β₂ is typically 0
     const beta_2 = 0;
@@ -321,66 +503,10 @@ export class GeometricProtocol {
     return { beta_0, beta_1, beta_2 };
   }
 
-  /**
-   * Build adjacency matrix
-   */
-  private buildAdjacencyMatrix(vertices: any[], edges: any[]): number[][] {
-    const n = vertices.length;
-    const matrix: number[][] = Array(n).fill(null).map(() => Array(n).fill(0));
-
-    // Create vertex ID to index mapping
-    const vertexIndex = new Map<string, number>();
-    vertices.forEach((v, i) => vertexIndex.set(v.id, i));
-
-    // Fill adjacency matrix
-    edges.forEach(edge => {
-      const fromIndex = vertexIndex.get(edge.from);
-      const toIndex = vertexIndex.get(edge.to);
-
-      if (fromIndex !== undefined && toIndex !== undefined) {
-        matrix[fromIndex][toIndex] = 1;
-        matrix[toIndex][fromIndex] = 1; // Undirected graph
-      }
-    });
-
-    return matrix;
-  }
-
-  /**
-   * Calculate connected components using DFS
-   */
-  private calculateConnectedComponents(vertices: any[], adjacency: number[][]): number {
-    const n = vertices.length;
-    const visited = new Array(n).fill(false);
-    let components = 0;
-
-    for (let i = 0; i < n; i++) {
-      if (!visited[i]) {
-        this.dfs(i, adjacency, visited);
-        components++;
-      }
-    }
-
-    return components;
-  }
-
-  /**
-   * Depth-first search
-   */
-  private dfs(vertex: number, adjacency: number[][], visited: boolean[]): void {
-    visited[vertex] = true;
-
-    for (let i = 0; i < adjacency[vertex].length; i++) {
-      if (adjacency[vertex][i] === 1 && !visited[i]) {
-        this.dfs(i, adjacency, visited);
-      }
-    }
-  }
-
   /**
    * Generate incidence relations for geometric type
    */
-  private generateIncidenceRelations(geometricType: GeometricType): string[] {
+  private generateIncidenceRelations(geometricType: ShapeType): string[] {
     // Generate incidence relations based on geometric type
     // This is a simplified implementation
     const relations: string[] = [];
@@ -405,7 +531,7 @@ export class GeometricProtocol {
   /**
    * Get default topological properties for geometric type
    */
-  private getDefaultTopologicalProperties(_geometricType: GeometricType): BettiNumbers {
+  private getDefaultTopologicalProperties(_geometricType: ShapeType): BettiNumbers {
     // Default Betti numbers for connected geometric shapes
     return {
       beta_0: 1,  // Connected
@@ -415,132 +541,108 @@ export class GeometricProtocol {
   }
 
   /**
-   * Get threshold for geometric type
+   * Get threshold for geometric type from the shape registry
    */
-  private getThresholdForType(geometricType: GeometricType): number {
-    // Simplified threshold mapping
-    const thresholds: Record<GeometricType, number> = {
-      [GeometricType.POINT]: 0,
-      [GeometricType.LINE]: 0,
-      [GeometricType.TRIANGLE]: 0,
-      [GeometricType.SQUARE]: 0,
-      [GeometricType.TETRAHEDRON]: 1.0,
-      [GeometricType.CUBE]: 0.5,
-      [GeometricType.OCTAHEDRON]: 0.833,
-      [GeometricType.DODECAHEDRON]: 0.6,
-      [GeometricType.ICOSAHEDRON]: 0.75,
-      [GeometricType.FIVE_CELL]: 1.0,
-      [GeometricType.EIGHT_CELL]: 0.5,
-      [GeometricType.SIXTEEN_CELL]: 0.75,
-      [GeometricType.TWENTY_FOUR_CELL]: 0.833,
-      [GeometricType.SIX_HUNDRED_CELL]: 0.6,
-      [GeometricType.TRUNCATED_TETRAHEDRON]: 1.0,
-      [GeometricType.CUBOCTAHEDRON]: 0.8,
-      [GeometricType.TRUNCATED_CUBE]: 0.75,
-      [GeometricType.TRUNCATED_OCTAHEDRON]: 0.75,
-      [GeometricType.RHOMBICUBOCTAHEDRON]: 0.6,
-      [GeometricType.TRUNCATED_CUBOCTAHEDRON]: 0.6,
-      [GeometricType.SNUB_CUBE]: 0.5,
-      [GeometricType.ICOSIDODECAHEDRON]: 0.8,
-      [GeometricType.TRUNCATED_DODECAHEDRON]: 0.7,
-      [GeometricType.TRUNCATED_ICOSAHEDRON]: 0.7,
-      [GeometricType.RHOMBICOSIDODECAHEDRON]: 0.6,
-      [GeometricType.TRUNCATED_ICOSIDODECAHEDRON]: 0.6,
-      [GeometricType.SNUB_DODECAHEDRON]: 0.5
-    };
-
-    return thresholds[geometricType] || 0.5;
+  private getThresholdForType(geometricType: ShapeType): number {
+    return getGeometricShape(geometricType).threshold;
   }
 
   /**
    * Get consensus level for geometric type
    */
-  private getConsensusLevel(geometricType: GeometricType): 'local' | 'federation' | 'global' {
-    // Map geometric types to consensus levels
-    if ([GeometricType.TETRAHEDRON, GeometricType.CUBE, GeometricType.OCTAHEDRON,
-         GeometricType.DODECAHEDRON, GeometricType.ICOSAHEDRON].includes(geometricType)) {
-      return 'local';
-    }
-
-    if ([GeometricType.FIVE_CELL, GeometricType.EIGHT_CELL, GeometricType.SIXTEEN_CELL,
-         GeometricType.TWENTY_FOUR_CELL, GeometricType.SIX_HUNDRED_CELL].includes(geometricType)) {
-      return 'federation';
-    }
-
-    return 'global';
+  private getConsensusLevel(geometricType: ShapeType): 'local' | 'federation' | 'global' {
+    return getGeometricShape(geometricType).context;
   }
 
   /**
    * Calculate required agreement for geometric type
    */
-  private calculateRequiredAgreement(geometricType: GeometricType, participantCount: number): number {
+  private calculateRequiredAgreement(geometricType: ShapeType, participantCount: number): number {
     const threshold = this.getThresholdForType(geometricType);
     return Math.ceil(participantCount * threshold);
   }
 
   /**
-   * Generate unique message ID
+   * Serialize message to JSON
    */
-  private generateMessageId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `msg-${timestamp}-${random}`;
+  serializeMessage(message: GeometricMessage): string {
+    return JSON.stringify(message, null, 2);
   }
 
   /**
-   * Generate unique proposal ID
+   * Deserialize message from JSON
    */
-  private generateProposalId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `prop-${timestamp}-${random}`;
+  deserializeMessage(json: string): GeometricMessage {
+    const message = JSON.parse(json);
+
+    if (!this.validateMessage(message)) {
+      throw new Error('Invalid message format');
+    }
+
+    return message;
   }
 
   /**
-   * Generate unique vote ID
+   * Create Ed25519 message signature
+   *
+   * Signs the canonical encoding of the whole message, excluding any
+   * existing signature field.
    */
-  private generateVoteId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `vote-${timestamp}-${random}`;
+  createSignature(message: GeometricMessage, privateKey: string): string {
+    return signPayload(this.getSigningPayload(message), privateKey);
   }
 
   /**
-   * Serialize message to JSON
+   * Verify Ed25519 message signature
    */
-  serializeMessage(message: GeometricMessage): string {
-    return JSON.stringify(message, null, 2);
+  verifySignature(message: GeometricMessage, signature: string, publicKey: string): boolean {
+    return verifyPayload(this.getSigningPayload(message), signature, publicKey);
   }
 
   /**
-   * Deserialize message from JSON
+   * Return a copy of the message carrying a signature
    */
-  deserializeMessage(json: string): GeometricMessage {
-    const message = JSON.parse(json);
+  signMessage(message: GeometricMessage, privateKey: string): GeometricMessage {
+    return {
+      ...message,
+      signature: this.createSignature(message, privateKey)
+    };
+  }
 
-    if (!this.validateMessage(message)) {
-      throw new Error('Invalid message format');
-    }
+  /**
+   * Create Ed25519 vote signature
+   */
+  createVoteSignature(vote: ConsensusVote, privateKey: string): string {
+    return signPayload(this.getSigningPayload(vote), privateKey);
+  }
 
-    return message;
+  /**
+   * Return a copy of the vote carrying a signature
+   */
+  signVote(vote: ConsensusVote, privateKey: string): ConsensusVote {
+    return {
+      ...vote,
+      signature: this.createVoteSignature(vote, privateKey)
+    };
   }
 
   /**
-   * Create message signature (placeholder)
+   * Verify the signature carried by a vote
+   *
+   * Unsigned votes never verify.
    */
-  createSignature(message: GeometricMessage, _privateKey: string): string {
-    // Placeholder for cryptographic signature
-    // In a real implementation, this would use proper cryptography
-    const data = `${message.id}:${message.from}:${message.timestamp}`;
-    return `sig-${Buffer.from(data).toString('base64').substring(0, 16)}`;
+  verifyVoteSignature(vote: ConsensusVote, publicKey: string): boolean {
+    if (!vote.signature) {
+      return false;
+    }
+    return verifyPayload(this.getSigningPayload(vote), vote.signature, publicKey);
   }
 
   /**
-   * Verify message signature (placeholder)
+   * Build the signing payload for a signed protocol object
    */
-  verifySignature(_message: GeometricMessage, _signature: string, _publicKey: string): boolean {
-    // Placeholder for signature verification
-    // In a real implementation, this would use proper cryptography
-    return _signature.startsWith('sig-');
+  private getSigningPayload<T extends { signature?: string }>(value: T): Omit<T, 'signature'> {
+    const { signature: _signature, ...payload } = value;
+    return payload;
   }
 }
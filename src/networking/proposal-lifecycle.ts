@@ -0,0 +1,98 @@
+/**
+ * Proposal Lifecycle Scheduler
+ *
+ * Fires a callback when a pending proposal reaches its expirationTime and
+ * tracks when proposals settled, so finished proposals can be swept out of
+ * memory after a retention period.
+ */
+
+import { ConsensusProposal } from './geometric-protocol.js';
+
+const MAX_TIMER_DELAY = 2147483647;  // setTimeout delays above 2^31-1 ms fire immediately
+
+/**
+ * Expiry timers and retention bookkeeping for consensus proposals
+ */
+export class ProposalLifecycle {
+  private onExpire: (proposalId: string) => void;
+  private retention: number;
+  private timers: Map<string, NodeJS.Timeout>;
+  private settledAt: Map<string, number>;
+
+  constructor(onExpire: (proposalId: string) => void, retention: number) {
+    this.onExpire = onExpire;
+    this.retention = retention;
+    this.timers = new Map();
+    this.settledAt = new Map();
+  }
+
+  /**
+   * Start the expiry timer for a pending proposal
+   *
+   * Already expired proposals expire on the next tick.
+   */
+  schedule(proposal: ConsensusProposal, now: number = Date.now()): void {
+    if (proposal.status !== 'pending' || this.timers.has(proposal.proposalId)) {
+      return;
+    }
+
+    const expiresAt = new Date(proposal.expirationTime).getTime();
+    const delay = isNaN(expiresAt) ? 0 : Math.max(0, expiresAt - now);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(proposal.proposalId);
+      if (delay > MAX_TIMER_DELAY) {
+        this.schedule(proposal);  // Long expiries are reached in steps
+      } else {
+        this.onExpire(proposal.proposalId);
+      }
+    }, Math.min(delay, MAX_TIMER_DELAY));
+
+    this.timers.set(proposal.proposalId, timer);
+  }
+
+  /**
+   * Mark a proposal as finished and cancel its expiry timer
+   */
+  settle(proposalId: string, now: number = Date.now()): void {
+    this.cancel(proposalId);
+    if (!this.settledAt.has(proposalId)) {
+      this.settledAt.set(proposalId, now);
+    }
+  }
+
+  /**
+   * Proposals settled longer ago than the retention period
+   *
+   * Returned IDs are forgotten by the scheduler; the caller removes the
+   * proposal state itself.
+   */
+  sweep(now: number = Date.now()): string[] {
+    const expired: string[] = [];
+
+    this.settledAt.forEach((settledAt, proposalId) => {
+      if (now - settledAt >= this.retention) {
+        expired.push(proposalId);
+      }
+    });
+
+    expired.forEach(proposalId => this.settledAt.delete(proposalId));
+    return expired;
+  }
+
+  /**
+   * Cancel every timer
+   */
+  clear(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private cancel(proposalId: string): void {
+    const timer = this.timers.get(proposalId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(proposalId);
+    }
+  }
+}
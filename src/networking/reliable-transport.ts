@@ -0,0 +1,332 @@
+/**
+ * Reliable Datagram Transport
+ *
+ * Adds sequence numbers, acknowledgements, retransmission with exponential
+ * backoff and fragmentation/reassembly on top of raw UDP datagrams, so
+ * payloads larger than one datagram (e.g. 120-vertex SIX_HUNDRED_CELL
+ * proposals) are delivered intact or reported as failed.
+ *
+ * Sequence numbers restart with every transport instance, so each frame
+ * also carries the sender's random session ID: a restarted peer starts a
+ * new session, and its payloads are never mistaken for retransmissions of
+ * the previous one.
+ */
+
+import { uuidv7 } from '../crypto/ids.js';
+
+export interface TransportFrame {
+  kind: 'data' | 'ack';
+  session: string;      // Sending transport's session ID; acks echo the data frame's
+  seq: number;          // Sender-assigned sequence number of the payload
+  index: number;        // Fragment index (0-based)
+  count?: number;       // Total fragments (data frames only)
+  reliable?: boolean;   // Whether the sender expects acknowledgements
+  chunk?: string;       // base64 fragment bytes (data frames only)
+}
+
+export interface ReliableTransportOptions {
+  maxMessageSize: number;  // Maximum datagram size in bytes
+  timeout: number;         // Initial acknowledgement timeout in milliseconds
+  retryAttempts: number;   // Retransmissions before giving up
+}
+
+export type DatagramSender = (datagram: Buffer, port: number, host: string) => void;
+
+interface PendingSend {
+  frames: Map<number, Buffer>;  // Unacknowledged fragments by index
+  host: string;
+  port: number;
+  attempt: number;
+  timer?: NodeJS.Timeout;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface Reassembly {
+  count: number;
+  chunks: Map<number, Buffer>;
+  expiresAt: number;
+}
+
+const FRAME_OVERHEAD = 192;          // Bytes reserved for frame JSON around a chunk
+const DELIVERED_WINDOW = 4096;       // Completed payloads remembered per transport
+
+/**
+ * Reliable transport over an unreliable datagram socket
+ */
+export class ReliableTransport {
+  private options: ReliableTransportOptions;
+  private sendDatagram: DatagramSender;
+  private session: string;
+  private nextSeq: number;
+  private pending: Map<string, PendingSend>;
+  private reassembly: Map<string, Reassembly>;
+  private delivered: Set<string>;
+  private closed: boolean;
+
+  constructor(sendDatagram: DatagramSender, options: ReliableTransportOptions) {
+    if (options.maxMessageSize <= FRAME_OVERHEAD + 4) {
+      throw new Error(`maxMessageSize must exceed ${FRAME_OVERHEAD + 4} bytes`);
+    }
+
+    this.sendDatagram = sendDatagram;
+    this.options = options;
+    this.session = uuidv7();
+    this.nextSeq = 1;
+    this.pending = new Map();
+    this.reassembly = new Map();
+    this.delivered = new Set();
+    this.closed = false;
+  }
+
+  /**
+   * Send a payload, fragmenting it to fit maxMessageSize
+   *
+   * Reliable sends resolve once every fragment is acknowledged and reject
+   * after retryAttempts retransmissions; unreliable sends resolve
+   * immediately after the datagrams are handed to the socket.
+   */
+  send(payload: Buffer, host: string, port: number, reliable: boolean = true): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new Error('Transport is closed'));
+    }
+
+    const seq = this.nextSeq++;
+    const frames = this.fragment(payload, seq, reliable);
+
+    if (!reliable) {
+      frames.forEach(frame => this.sendDatagram(frame, port, host));
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const entry: PendingSend = {
+        frames: new Map(frames.map((frame, index) => [index, frame])),
+        host,
+        port,
+        attempt: 0,
+        resolve,
+        reject
+      };
+
+      this.pending.set(this.pendingKey(host, port, seq), entry);
+      this.transmit(this.pendingKey(host, port, seq), entry);
+    });
+  }
+
+  /**
+   * Process an incoming datagram
+   *
+   * Returns the complete payload when the last missing fragment arrives,
+   * or null for acknowledgements, partial payloads and duplicates.
+   */
+  receive(datagram: Buffer, host: string, port: number): Buffer | null {
+    const frame = this.parseFrame(datagram);
+    if (!frame) {
+      return null;
+    }
+
+    if (frame.kind === 'ack') {
+      this.handleAck(frame, host, port);
+      return null;
+    }
+
+    if (frame.reliable) {
+      this.sendAck(frame, host, port);
+    }
+
+    const key = this.deliveryKey(host, port, frame);
+    if (this.delivered.has(key)) {
+      return null;  // Retransmission of a payload we already delivered
+    }
+
+    this.expireReassemblies();
+
+    const count = frame.count as number;
+    const buffer = this.reassembly.get(key) || {
+      count,
+      chunks: new Map<number, Buffer>(),
+      expiresAt: Date.now() + this.reassemblyLifetime()
+    };
+    buffer.chunks.set(frame.index, Buffer.from(frame.chunk as string, 'base64'));
+    this.reassembly.set(key, buffer);
+
+    if (buffer.chunks.size < buffer.count) {
+      return null;
+    }
+
+    this.reassembly.delete(key);
+    this.markDelivered(key);
+
+    const ordered: Buffer[] = [];
+    for (let i = 0; i < buffer.count; i++) {
+      ordered.push(buffer.chunks.get(i) as Buffer);
+    }
+    return Buffer.concat(ordered);
+  }
+
+  /**
+   * Stop all retransmissions and fail pending sends
+   */
+  close(): void {
+    this.closed = true;
+    this.pending.forEach(entry => {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+      entry.reject(new Error('Transport closed before delivery was acknowledged'));
+    });
+    this.pending.clear();
+    this.reassembly.clear();
+  }
+
+  /**
+   * Number of payloads awaiting acknowledgement
+   */
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Split a payload into encoded data frames
+   */
+  private fragment(payload: Buffer, seq: number, reliable: boolean): Buffer[] {
+    // base64 grows data by 4/3; keep each frame within maxMessageSize
+    const chunkSize = Math.floor((this.options.maxMessageSize - FRAME_OVERHEAD) * 3 / 4);
+    const count = Math.max(1, Math.ceil(payload.length / chunkSize));
+    const frames: Buffer[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const frame: TransportFrame = {
+        kind: 'data',
+        session: this.session,
+        seq,
+        index,
+        count,
+        reliable,
+        chunk: payload.subarray(index * chunkSize, (index + 1) * chunkSize).toString('base64')
+      };
+      frames.push(Buffer.from(JSON.stringify(frame)));
+    }
+
+    return frames;
+  }
+
+  /**
+   * Send unacknowledged fragments and schedule the next retransmission
+   */
+  private transmit(key: string, entry: PendingSend): void {
+    entry.frames.forEach(frame => this.sendDatagram(frame, entry.port, entry.host));
+
+    // Exponential backoff: timeout, 2×timeout, 4×timeout, ...
+    const delay = this.options.timeout * Math.pow(2, entry.attempt);
+    entry.timer = setTimeout(() => {
+      if (!this.pending.has(key)) {
+        return;
+      }
+
+      if (entry.attempt >= this.options.retryAttempts) {
+        this.pending.delete(key);
+        entry.reject(new Error(
+          `No acknowledgement from ${entry.host}:${entry.port} after ${entry.attempt + 1} attempts`
+        ));
+        return;
+      }
+
+      entry.attempt++;
+      this.transmit(key, entry);
+    }, delay);
+  }
+
+  /**
+   * Handle an acknowledgement for one fragment
+   */
+  private handleAck(frame: TransportFrame, host: string, port: number): void {
+    if (frame.session !== this.session) {
+      return;  // Acknowledges a send from before this transport started
+    }
+
+    const key = this.pendingKey(host, port, frame.seq);
+    const entry = this.pending.get(key);
+    if (!entry) {
+      return;
+    }
+
+    entry.frames.delete(frame.index);
+    if (entry.frames.size === 0) {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+      this.pending.delete(key);
+      entry.resolve();
+    }
+  }
+
+  /**
+   * Acknowledge one received fragment
+   */
+  private sendAck(frame: TransportFrame, host: string, port: number): void {
+    const ack: TransportFrame = { kind: 'ack', session: frame.session, seq: frame.seq, index: frame.index };
+    this.sendDatagram(Buffer.from(JSON.stringify(ack)), port, host);
+  }
+
+  /**
+   * Parse and validate a frame, returning null for anything malformed
+   */
+  private parseFrame(datagram: Buffer): TransportFrame | null {
+    try {
+      const frame = JSON.parse(datagram.toString()) as TransportFrame;
+
+      if ((frame.kind !== 'data' && frame.kind !== 'ack') ||
+          typeof frame.session !== 'string' || frame.session.length === 0 ||
+          !Number.isInteger(frame.seq) || !Number.isInteger(frame.index) || frame.index < 0) {
+        return null;
+      }
+
+      if (frame.kind === 'data' &&
+          (!Number.isInteger(frame.count) || (frame.count as number) < 1 ||
+           frame.index >= (frame.count as number) || typeof frame.chunk !== 'string')) {
+        return null;
+      }
+
+      return frame;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Drop reassembly buffers whose sender has stopped retransmitting
+   */
+  private expireReassemblies(): void {
+    const now = Date.now();
+    this.reassembly.forEach((buffer, key) => {
+      if (buffer.expiresAt < now) {
+        this.reassembly.delete(key);
+      }
+    });
+  }
+
+  /**
+   * How long a sender may keep retransmitting one payload
+   */
+  private reassemblyLifetime(): number {
+    return this.options.timeout * (Math.pow(2, this.options.retryAttempts + 1) - 1);
+  }
+
+  private markDelivered(key: string): void {
+    this.delivered.add(key);
+    if (this.delivered.size > DELIVERED_WINDOW) {
+      const oldest = this.delivered.values().next().value as string;
+      this.delivered.delete(oldest);
+    }
+  }
+
+  private pendingKey(host: string, port: number, seq: number): string {
+    return `${host}:${port}:${seq}`;
+  }
+
+  private deliveryKey(host: string, port: number, frame: TransportFrame): string {
+    return `${host}:${port}:${frame.session}:${frame.seq}`;
+  }
+}
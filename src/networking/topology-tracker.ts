@@ -0,0 +1,210 @@
+/**
+ * Live Network Topology Tracking
+ *
+ * Builds the network graph from real traffic. Local edges come from
+ * heartbeats exchanged with direct peers: latency is estimated from echoed
+ * heartbeat timestamps (no clock synchronisation needed) and reliability is
+ * the smoothed fraction of heartbeat intervals in which the peer was heard.
+ * Remote edges come from peers' gossiped `topology_update` reports, so a
+ * node unreachable from here but reachable through a peer stays connected.
+ */
+
+import { GeometricProtocol, NetworkEdge, NetworkNode, NetworkTopology } from './geometric-protocol.js';
+
+export interface HeartbeatEcho {
+  sentAt: number;   // Echoed peer heartbeat timestamp (peer's clock)
+  heldFor: number;  // Time between receiving that heartbeat and echoing it
+}
+
+export interface HeartbeatTiming {
+  sentAt: number;                          // Sender's clock when the heartbeat was sent
+  echoes: Record<string, HeartbeatEcho>;   // Latest heartbeat from each peer, echoed back
+}
+
+interface LinkStats {
+  latency: number;         // Smoothed one-way latency estimate (RTT / 2) in ms
+  reliability: number;     // Smoothed fraction of intervals with a heartbeat (0-1)
+  heartbeats: number;      // Heartbeats received in the current interval
+  lastHeartbeat?: { sentAt: number; receivedAt: number };
+  lastUsed: number;
+}
+
+interface RemoteReport {
+  edges: NetworkEdge[];
+  receivedAt: number;
+}
+
+const SMOOTHING = 0.2;          // Weight of the newest sample in moving averages
+const MAX_RTT = 60000;          // Round trips above this are treated as bogus
+
+/**
+ * Tracks local link quality and gossiped remote edges
+ */
+export class TopologyTracker {
+  private nodeId: string;
+  private protocol: GeometricProtocol;
+  private links: Map<string, LinkStats>;
+  private reports: Map<string, RemoteReport>;
+
+  constructor(nodeId: string, protocol: GeometricProtocol) {
+    this.nodeId = nodeId;
+    this.protocol = protocol;
+    this.links = new Map();
+    this.reports = new Map();
+  }
+
+  /**
+   * Timing fields to include in an outgoing heartbeat
+   */
+  heartbeatTiming(now: number = Date.now()): HeartbeatTiming {
+    const echoes: Record<string, HeartbeatEcho> = {};
+    this.links.forEach((link, peerId) => {
+      if (link.lastHeartbeat) {
+        echoes[peerId] = {
+          sentAt: link.lastHeartbeat.sentAt,
+          heldFor: now - link.lastHeartbeat.receivedAt
+        };
+      }
+    });
+
+    return { sentAt: now, echoes };
+  }
+
+  /**
+   * Record a heartbeat from a direct peer
+   *
+   * If the peer echoed one of our heartbeats, the round trip updates the
+   * latency estimate for the link.
+   */
+  recordHeartbeat(peerId: string, timing: Partial<HeartbeatTiming> | undefined, now: number = Date.now()): void {
+    const link = this.getLink(peerId, now);
+    link.heartbeats++;
+    link.lastUsed = now;
+
+    if (typeof timing?.sentAt === 'number' && Number.isFinite(timing.sentAt)) {
+      link.lastHeartbeat = { sentAt: timing.sentAt, receivedAt: now };
+    }
+
+    const echo = timing?.echoes?.[this.nodeId];
+    if (echo && Number.isFinite(echo.sentAt) && Number.isFinite(echo.heldFor)) {
+      const rtt = now - echo.sentAt - echo.heldFor;
+      if (rtt >= 0 && rtt < MAX_RTT) {
+        link.latency = link.latency === 0
+          ? rtt / 2
+          : (1 - SMOOTHING) * link.latency + SMOOTHING * (rtt / 2);
+      }
+    }
+  }
+
+  /**
+   * Close the current heartbeat interval and update link reliability
+   */
+  endInterval(): void {
+    this.links.forEach(link => {
+      const sample = link.heartbeats > 0 ? 1 : 0;
+      link.reliability = (1 - SMOOTHING) * link.reliability + SMOOTHING * sample;
+      link.heartbeats = 0;
+    });
+  }
+
+  /**
+   * Edges from this node to every peer not declared partitioned
+   */
+  getLocalEdges(peers: NetworkNode[]): NetworkEdge[] {
+    return peers
+      .filter(peer => peer.status !== 'partitioned')
+      .map(peer => {
+        const link = this.links.get(peer.id);
+        return {
+          id: `${this.nodeId}-${peer.id}`,
+          from: this.nodeId,
+          to: peer.id,
+          weight: 1,
+          latency: link ? Math.round(link.latency) : 0,
+          reliability: link ? Number(link.reliability.toFixed(3)) : 1,
+          lastUsed: link ? new Date(link.lastUsed).toISOString() : peer.lastSeen
+        };
+      });
+  }
+
+  /**
+   * Replace the edges reported by a peer
+   *
+   * A peer may only report its own links; other edges are ignored.
+   */
+  mergeReport(reporter: string, edges: NetworkEdge[], now: number = Date.now()): void {
+    this.reports.set(reporter, {
+      edges: edges.filter(edge => edge.from === reporter && edge.to !== reporter),
+      receivedAt: now
+    });
+  }
+
+  /**
+   * Forget everything known about a peer
+   */
+  removePeer(peerId: string): void {
+    this.links.delete(peerId);
+    this.reports.delete(peerId);
+  }
+
+  /**
+   * Forget a peer's gossiped edges (e.g. once it has left)
+   */
+  removeReport(reporter: string): void {
+    this.reports.delete(reporter);
+  }
+
+  /**
+   * Drop gossip that has not been refreshed within maxAge milliseconds
+   */
+  expireReports(maxAge: number, now: number = Date.now()): void {
+    this.reports.forEach((report, reporter) => {
+      if (now - report.receivedAt > maxAge) {
+        this.reports.delete(reporter);
+      }
+    });
+  }
+
+  /**
+   * Build the current topology from local links and gossip
+   *
+   * Local measurements win over gossip for the same undirected edge. Nodes
+   * only known from gossip are added with the information available.
+   */
+  build(self: NetworkNode, peers: NetworkNode[]): NetworkTopology {
+    const nodes = new Map<string, NetworkNode>();
+    nodes.set(self.id, self);
+    peers.forEach(peer => nodes.set(peer.id, peer));
+
+    const edges = new Map<string, NetworkEdge>();
+    const addEdge = (edge: NetworkEdge) => {
+      [edge.from, edge.to].forEach(id => {
+        if (!nodes.has(id)) {
+          nodes.set(id, {
+            id,
+            address: '',
+            port: 0,
+            capabilities: [],
+            status: 'active',
+            lastSeen: edge.lastUsed
+          });
+        }
+      });
+      edges.set([edge.from, edge.to].sort().join('|'), edge);
+    };
+
+    this.reports.forEach(report => report.edges.forEach(addEdge));
+    this.getLocalEdges(peers).forEach(addEdge);
+
+    return this.protocol.buildNetworkTopology(Array.from(nodes.values()), Array.from(edges.values()));
+  }
+
+  private getLink(peerId: string, now: number): LinkStats {
+    let link = this.links.get(peerId);
+    if (!link) {
+      link = { latency: 0, reliability: 1, heartbeats: 0, lastUsed: now };
+      this.links.set(peerId, link);
+    }
+    return link;
+  }
+}
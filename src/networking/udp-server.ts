@@ -5,9 +5,20 @@
  * Used as proof of concept for RFC XXXX networking requirements.
  */
 
-import { createSocket, Socket } from 'dgram';
-import { GeometricMessage, ConsensusProposal, ConsensusVote, GeometricProtocol } from './geometric-protocol.js';
-import { GeometricType } from '../phase1-geometric-consensus/geometric-types.js';
+import { createSocket, Socket, RemoteInfo } from 'dgram';
+import { GeometricMessage, ConsensusProposal, ConsensusVote, EquivocationEvidence, GeometricProtocol, NetworkNode, NetworkEdge, NetworkTopology } from './geometric-protocol.js';
+import { ShapeType } from '../phase1-geometric-consensus/geometric-types.js';
+import { ConsensusCertificate, DecisionVertex, GeometricConsensus } from '../phase1-geometric-consensus/geometric-consensus.js';
+import { verifyCertificate } from '../phase1-geometric-consensus/certificate-integrity.js';
+import { AbstentionRule, VoteValue, ownVote } from '../phase1-geometric-consensus/vote-resolution.js';
+import { SigningKeyPair, generateSigningKeyPair, signPayload, verifyPayload } from '../crypto/signatures.js';
+import { KeyRegistry } from '../crypto/key-registry.js';
+import { contentId, generateId } from '../crypto/ids.js';
+import { ReliableTransport } from './reliable-transport.js';
+import { FailureDetector, MembershipEvent } from './failure-detector.js';
+import { TopologyTracker } from './topology-tracker.js';
+import { ProposalLifecycle } from './proposal-lifecycle.js';
+import { EarlyVoteBuffer } from './early-vote-buffer.js';
 
 export interface UDPServerConfig {
   port: number;
@@ -15,23 +26,62 @@ export interface UDPServerConfig {
   maxMessageSize: number;
   timeout: number;
   retryAttempts: number;
+  nodeId?: string;               // Stable node ID; generated if omitted
+  peers?: PeerAddress[];         // Seed peers contacted with a join handshake on start
+  signingKeys?: SigningKeyPair;  // Node identity; generated if omitted
+  keyRegistry?: KeyRegistry;     // Trusted node keys; first-seen keys are pinned if omitted
+  heartbeatInterval?: number;    // Milliseconds between heartbeats (default 5000)
+  suspectTimeout?: number;       // Silence before a peer is 'inactive' (default 2 heartbeats)
+  failureTimeout?: number;       // Silence before a peer is 'partitioned' (default 5 heartbeats)
+  proposalRetention?: number;    // Milliseconds finished proposals are kept (default 10 minutes)
+}
+
+export interface PeerAddress {
+  host: string;
+  port: number;
+  nodeId?: string;  // Known ahead of time, or learned from the handshake
 }
 
 export interface NetworkMessage {
-  type: 'consensus_proposal' | 'consensus_vote' | 'geometric_message' | 'heartbeat' | 'topology_update';
+  id?: string;          // Content-addressed ID; retransmissions share it
+  type: 'consensus_proposal' | 'consensus_vote' | 'consensus_outcome' | 'geometric_message' | 'heartbeat' | 'topology_update' | 'join' | 'join_ack';
   data: any;
   timestamp: string;
   from: string;
   to?: string;
+  publicKey?: string;   // Sender's Ed25519 public key (base64 SPKI)
+  signature?: string;   // Sender's signature over the canonical envelope
+}
+
+export interface ConsensusOutcome {
+  proposalId: string;
+  status: ConsensusProposal['status'];  // Final status: achieved, failed or timeout
+  agreementCount: number;
+  requiredCount: number;
+  voters: string[];                      // Voters whose votes were counted
+  equivocators: string[];
+  certificate: ConsensusCertificate;     // Sealed and signed by the proposer
+  decidedAt: string;
 }
 
 export interface ConsensusState {
   proposals: Map<string, ConsensusProposal>;
-  votes: Map<string, ConsensusVote[]>;
+  votes: Map<string, ConsensusVote[]>;            // One vote per voter per proposal
+  equivocations: Map<string, EquivocationEvidence[]>;
+  flaggedVoters: Set<string>;                     // Voters caught equivocating
+  outcomes: Map<string, ConsensusOutcome>;        // Announced results by proposal ID
   participants: Set<string>;
-  networkTopology: any;
+  networkTopology: NetworkTopology | null;        // This node's view, rebuilt on membership changes
 }
 
+const RECENT_MESSAGE_WINDOW = 4096;  // Message IDs remembered for duplicate detection
+const NODE_CAPABILITIES = ['geometric-consensus'];
+const DEFAULT_HEARTBEAT_INTERVAL = 5000;
+const DEFAULT_PROPOSAL_RETENTION = 10 * 60 * 1000;
+const EARLY_VOTE_LIMIT = 1024;         // Votes held for proposals not seen yet
+const EARLY_VOTE_MAX_AGE = 60 * 1000;  // Milliseconds a vote waits for its proposal
+const UNACKNOWLEDGED_TYPES = new Set(['heartbeat', 'topology_update']);  // Periodic; the next one supersedes
+
 /**
  * UDP Geometric Server
  *
@@ -40,27 +90,82 @@ export interface ConsensusState {
  */
 export class UDPGeometricServer {
   private socket: Socket;
+  private transport: ReliableTransport;
   private config: UDPServerConfig;
   private protocol: GeometricProtocol;
   private consensusState: ConsensusState;
   private messageHandlers: Map<string, (message: NetworkMessage) => void>;
+  private equivocationHandler?: (evidence: EquivocationEvidence) => void;
+  private membershipHandler?: (event: MembershipEvent) => void;
+  private outcomeHandler?: (outcome: ConsensusOutcome) => void;
+  private partitionHandler?: (topology: NetworkTopology, previousComponents: number) => void;
   private isRunning: boolean;
   private nodeId: string;
+  private signingKeys: SigningKeyPair;
+  private peerKeys: Map<string, string>;
+  private keyRegistry?: KeyRegistry;
+  private recentMessageIds: Set<string>;
+  private peers: Map<string, NetworkNode>;  // Address book: node ID → host/port
+  private failureDetector: FailureDetector;
+  private failureTimeout: number;
+  private topologyTracker: TopologyTracker;
+  private proposalLifecycle: ProposalLifecycle;
+  private earlyVotes: EarlyVoteBuffer;
+  private consensusEngine: GeometricConsensus;
+  private heartbeatTimer?: NodeJS.Timeout;
 
   constructor(config: UDPServerConfig) {
     this.config = config;
-    this.protocol = new GeometricProtocol();
+    this.keyRegistry = config.keyRegistry;
+    this.protocol = new GeometricProtocol(config.keyRegistry);
     this.consensusState = {
       proposals: new Map(),
       votes: new Map(),
+      equivocations: new Map(),
+      flaggedVoters: new Set(),
+      outcomes: new Map(),
       participants: new Set(),
       networkTopology: null
     };
     this.messageHandlers = new Map();
     this.isRunning = false;
-    this.nodeId = this.generateNodeId();
+    this.nodeId = config.nodeId || generateId('node');
+    this.signingKeys = config.signingKeys || generateSigningKeyPair();
+    this.peerKeys = new Map();
+    this.recentMessageIds = new Set();
+    this.peers = new Map();
+
+    const heartbeatInterval = config.heartbeatInterval || DEFAULT_HEARTBEAT_INTERVAL;
+    this.failureTimeout = config.failureTimeout || heartbeatInterval * 5;
+    this.failureDetector = new FailureDetector({
+      suspectTimeout: config.suspectTimeout || heartbeatInterval * 2,
+      failureTimeout: this.failureTimeout
+    });
+    this.topologyTracker = new TopologyTracker(this.nodeId, this.protocol);
+    this.proposalLifecycle = new ProposalLifecycle(
+      proposalId => this.expireProposal(proposalId),
+      config.proposalRetention ?? DEFAULT_PROPOSAL_RETENTION
+    );
+    this.earlyVotes = new EarlyVoteBuffer(EARLY_VOTE_LIMIT, EARLY_VOTE_MAX_AGE);
+    this.consensusEngine = new GeometricConsensus({
+      issuer: { id: this.nodeId, signingKeys: this.signingKeys },
+      keyRegistry: config.keyRegistry,
+      weighted: true  // Proposals assign vote weights, which the protocol counts too
+    });
+    this.updateNetworkTopology();
+
+    // Seeds with a known node ID go straight into the address book
+    (config.peers || []).forEach(seed => {
+      if (seed.nodeId) {
+        this.addPeer(seed.nodeId, seed.host, seed.port);
+      }
+    });
 
     this.socket = createSocket('udp4');
+    this.transport = new ReliableTransport(
+      (datagram, port, host) => this.sendDatagram(datagram, port, host),
+      { maxMessageSize: config.maxMessageSize, timeout: config.timeout, retryAttempts: config.retryAttempts }
+    );
     this.setupSocketHandlers();
   }
 
@@ -74,6 +179,9 @@ export class UDPGeometricServer {
         console.log(`UDP Geometric Server started on ${this.config.host}:${this.config.port}`);
         console.log(`Node ID: ${this.nodeId}`);
 
+        // Introduce ourselves to seed peers
+        this.joinSeedPeers();
+
         // Start heartbeat
         this.startHeartbeat();
 
@@ -93,6 +201,12 @@ export class UDPGeometricServer {
   stop(): Promise<void> {
     return new Promise((resolve) => {
       this.isRunning = false;
+      if (this.heartbeatTimer) {
+        clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = undefined;
+      }
+      this.proposalLifecycle.clear();
+      this.transport.close();
       this.socket.close(() => {
         console.log('UDP Geometric Server stopped');
         resolve();
@@ -104,12 +218,11 @@ export class UDPGeometricServer {
    * Broadcast a geometric message to all participants
    */
   broadcast(message: GeometricMessage): void {
-    const networkMessage: NetworkMessage = {
-      type: 'geometric_message',
-      data: message,
-      timestamp: new Date().toISOString(),
-      from: this.nodeId
-    };
+    const signedMessage = message.signature
+      ? message
+      : this.protocol.signMessage(message, this.signingKeys.privateKey);
+
+    const networkMessage = this.createNetworkMessage('geometric_message', signedMessage);
 
     this.broadcastToParticipants(networkMessage);
   }
@@ -118,30 +231,32 @@ export class UDPGeometricServer {
    * Send a consensus proposal
    */
   sendConsensusProposal(
-    geometricType: GeometricType,
+    geometricType: ShapeType,
     decision: string,
     justification: string,
-    participants: string[]
+    participants: string[],
+    expirationMinutes?: number,
+    abstentions?: AbstentionRule,
+    weights?: Record<string, number>
   ): ConsensusProposal {
     const proposal = this.protocol.createConsensusProposal(
       this.nodeId,
       geometricType,
       participants,
       decision,
-      justification
+      justification,
+      expirationMinutes,
+      abstentions,
+      weights
     );
 
     // Store proposal
     this.consensusState.proposals.set(proposal.proposalId, proposal);
     this.consensusState.votes.set(proposal.proposalId, []);
+    this.proposalLifecycle.schedule(proposal);
 
     // Broadcast proposal
-    const networkMessage: NetworkMessage = {
-      type: 'consensus_proposal',
-      data: proposal,
-      timestamp: new Date().toISOString(),
-      from: this.nodeId
-    };
+    const networkMessage = this.createNetworkMessage('consensus_proposal', proposal);
 
     this.broadcastToParticipants(networkMessage);
 
@@ -150,33 +265,40 @@ export class UDPGeometricServer {
 
   /**
    * Vote on a consensus proposal
+   *
+   * Accepts a plain yes/no or agree/disagree/abstain/veto; with
+   * `delegateTo`, this node adopts that participant's vote instead.
    */
   voteOnProposal(
     proposalId: string,
-    agrees: boolean,
-    justification?: string
+    value: boolean | VoteValue,
+    justification?: string,
+    delegateTo?: string
   ): ConsensusVote {
-    const vote = this.protocol.createConsensusVote(
-      proposalId,
-      this.nodeId,
-      agrees,
-      justification
+    const vote = this.protocol.signVote(
+      this.protocol.createConsensusVote(proposalId, this.nodeId, value, justification, delegateTo),
+      this.signingKeys.privateKey
     );
 
-    // Store vote
+    // Never equivocate locally: one vote per proposal
     const votes = this.consensusState.votes.get(proposalId) || [];
+    const existing = votes.find(v => v.voter === this.nodeId);
+    if (existing) {
+      if (this.protocol.isConflictingVote(existing, vote)) {
+        throw new Error(`Already voted ${existing.delegateTo ? `via ${existing.delegateTo}` : ownVote(existing)} on proposal ${proposalId}`);
+      }
+      return existing;
+    }
+
+    // Store vote
     votes.push(vote);
     this.consensusState.votes.set(proposalId, votes);
 
     // Broadcast vote
-    const networkMessage: NetworkMessage = {
-      type: 'consensus_vote',
-      data: vote,
-      timestamp: new Date().toISOString(),
-      from: this.nodeId
-    };
+    const networkMessage = this.createNetworkMessage('consensus_vote', vote);
 
     this.broadcastToParticipants(networkMessage);
+    this.evaluateProposal(proposalId);
 
     return vote;
   }
@@ -215,6 +337,87 @@ export class UDPGeometricServer {
     });
   }
 
+  /**
+   * Register consensus outcome handler
+   *
+   * Called when a proposal's outcome is announced, by this node (as the
+   * proposer) or by the proposer of a remote proposal.
+   */
+  onConsensusOutcome(handler: (outcome: ConsensusOutcome) => void): void {
+    this.outcomeHandler = handler;
+  }
+
+  /**
+   * Register equivocation handler
+   *
+   * Called with both signed votes whenever a voter is caught casting
+   * conflicting votes on the same proposal.
+   */
+  onEquivocation(handler: (evidence: EquivocationEvidence) => void): void {
+    this.equivocationHandler = handler;
+  }
+
+  /**
+   * Register membership handler
+   *
+   * Called when a peer joins (or comes back), is suspected, or leaves.
+   */
+  onMembershipChange(handler: (event: MembershipEvent) => void): void {
+    this.membershipHandler = handler;
+  }
+
+  /**
+   * Register partition handler
+   *
+   * Called with the new topology and the previous component count whenever
+   * the number of connected components (β₀) changes.
+   */
+  onPartition(handler: (topology: NetworkTopology, previousComponents: number) => void): void {
+    this.partitionHandler = handler;
+  }
+
+  /**
+   * Add or update a peer address
+   *
+   * A new peer is tracked by the failure detector from now on.
+   */
+  addPeer(nodeId: string, host: string, port: number): void {
+    if (nodeId === this.nodeId) {
+      return;
+    }
+
+    const existing = this.peers.get(nodeId);
+    this.peers.set(nodeId, {
+      id: nodeId,
+      address: host,
+      port,
+      capabilities: existing?.capabilities || [],
+      status: existing?.status || 'active',
+      lastSeen: existing?.lastSeen || new Date().toISOString()
+    });
+
+    if (!existing) {
+      this.applyMembershipEvent(this.failureDetector.heartbeat(nodeId));
+    }
+  }
+
+  /**
+   * Remove a peer from the address book
+   */
+  removePeer(nodeId: string): void {
+    this.peers.delete(nodeId);
+    this.failureDetector.remove(nodeId);
+    this.topologyTracker.removePeer(nodeId);
+    this.updateNetworkTopology();
+  }
+
+  /**
+   * Get known peers
+   */
+  getPeers(): NetworkNode[] {
+    return Array.from(this.peers.values()).map(peer => ({ ...peer }));
+  }
+
   /**
    * Add participant to network
    */
@@ -238,6 +441,9 @@ export class UDPGeometricServer {
     return {
       proposals: new Map(this.consensusState.proposals),
       votes: new Map(this.consensusState.votes),
+      equivocations: new Map(this.consensusState.equivocations),
+      flaggedVoters: new Set(this.consensusState.flaggedVoters),
+      outcomes: new Map(this.consensusState.outcomes),
       participants: new Set(this.consensusState.participants),
       networkTopology: this.consensusState.networkTopology
     };
@@ -250,6 +456,13 @@ export class UDPGeometricServer {
     return this.nodeId;
   }
 
+  /**
+   * Get this node's Ed25519 public key
+   */
+  getPublicKey(): string {
+    return this.signingKeys.publicKey;
+  }
+
   /**
    * Check if server is running
    */
@@ -261,8 +474,14 @@ export class UDPGeometricServer {
    * Setup socket event handlers
    */
   private setupSocketHandlers(): void {
-    this.socket.on('message', (buffer, remote) => {
+    this.socket.on('message', (datagram, remote) => {
       try {
+        // Acks, partial fragments and retransmissions stop here
+        const buffer = this.transport.receive(datagram, remote.address, remote.port);
+        if (!buffer) {
+          return;
+        }
+
         const message = JSON.parse(buffer.toString()) as NetworkMessage;
 
         // Validate message
@@ -287,9 +506,24 @@ export class UDPGeometricServer {
   /**
    * Handle incoming message
    */
-  private handleMessage(message: NetworkMessage, remote: any): void {
+  private handleMessage(message: NetworkMessage, remote: RemoteInfo): void {
     console.log(`Received ${message.type} from ${remote.address}:${remote.port}`);
 
+    // Reject unsigned or badly signed messages before touching any state
+    const rejection = this.authenticateMessage(message);
+    if (rejection) {
+      console.warn(`Rejected ${message.type} from ${message.from}: ${rejection}`);
+      return;
+    }
+
+    // Drop retransmissions of messages already processed
+    if (this.isDuplicateMessage(message.id as string)) {
+      return;
+    }
+
+    // Authenticated traffic tells us where the sender can be reached
+    this.recordPeerContact(message, remote);
+
     // Update participant list
     if (message.from !== this.nodeId) {
       this.consensusState.participants.add(message.from);
@@ -313,47 +547,331 @@ export class UDPGeometricServer {
       case 'consensus_vote':
         this.handleConsensusVote(message.data);
         break;
+      case 'consensus_outcome':
+        this.handleConsensusOutcome(message.data);
+        break;
       case 'geometric_message':
         this.handleGeometricMessage(message.data);
         break;
       case 'heartbeat':
         this.handleHeartbeat(message);
         break;
+      case 'topology_update':
+        this.handleTopologyUpdate(message);
+        break;
+      case 'join':
+        this.handleJoin(message);
+        break;
+      case 'join_ack':
+        this.handleJoinAck(message);
+        break;
+    }
+  }
+
+  /**
+   * Authenticate an incoming message
+   *
+   * Verifies the envelope signature against the sender's public key,
+   * checks that proposals and votes come from their author, and checks the
+   * inner signature of votes and geometric messages. With a key
+   * registry, the sender's key must be its active registered key; without
+   * one, the key is pinned to the sender's node ID on first contact.
+   * Returns a rejection reason, or null if the message is authentic.
+   */
+  private authenticateMessage(message: NetworkMessage): string | null {
+    if (!message.signature || !message.publicKey) {
+      return 'unsigned message';
+    }
+
+    if (message.id !== this.computeMessageId(message)) {
+      return 'message id does not match contents';
+    }
+
+    if (this.keyRegistry && !this.keyRegistry.isTrusted(message.from, message.publicKey)) {
+      return 'unknown or revoked key';
+    }
+
+    const knownKey = this.peerKeys.get(message.from);
+    if (!this.keyRegistry && knownKey && knownKey !== message.publicKey) {
+      return 'public key does not match the key previously seen for this node';
+    }
+
+    if (!verifyPayload(this.getEnvelopePayload(message), message.signature, message.publicKey)) {
+      return 'invalid envelope signature';
+    }
+
+    switch (message.type) {
+      case 'consensus_proposal': {
+        const proposal = message.data as ConsensusProposal;
+        if (proposal.proposer !== message.from) {
+          return `proposal by ${proposal.proposer} announced by a different node`;
+        }
+        break;
+      }
+      case 'consensus_vote': {
+        const vote = message.data as ConsensusVote;
+        if (vote.voter !== message.from) {
+          return `vote cast for ${vote.voter} by a different node`;
+        }
+        if (!this.protocol.verifyVoteSignature(vote, message.publicKey)) {
+          return 'invalid vote signature';
+        }
+        break;
+      }
+      case 'consensus_outcome': {
+        const outcome = message.data as ConsensusOutcome;
+        const proposal = this.consensusState.proposals.get(outcome.proposalId);
+        if (!proposal) {
+          return 'outcome for an unknown proposal';
+        }
+        if (proposal.proposer !== message.from) {
+          return 'outcome announced by a node other than the proposer';
+        }
+        if (!outcome.certificate ||
+            !verifyCertificate(outcome.certificate, { [message.from]: message.publicKey }).valid) {
+          return 'invalid outcome certificate';
+        }
+        break;
+      }
+      case 'geometric_message': {
+        const geometricMessage = message.data as GeometricMessage;
+        if (!geometricMessage.signature ||
+            !this.protocol.verifySignature(geometricMessage, geometricMessage.signature, message.publicKey)) {
+          return 'invalid geometric message signature';
+        }
+        break;
+      }
     }
+
+    if (!this.keyRegistry && !knownKey) {
+      this.peerKeys.set(message.from, message.publicKey);
+    }
+
+    return null;
   }
 
   /**
    * Handle consensus proposal
+   *
+   * Votes that arrived ahead of the proposal are replayed once it is stored.
    */
   private handleConsensusProposal(proposal: ConsensusProposal): void {
+    if (!this.protocol.hasValidWeights(proposal)) {
+      console.warn(`Dropped consensus proposal ${proposal.proposalId}: invalid vote weights`);
+      return;
+    }
+
     // Store proposal if not already stored
     if (!this.consensusState.proposals.has(proposal.proposalId)) {
       this.consensusState.proposals.set(proposal.proposalId, proposal);
       this.consensusState.votes.set(proposal.proposalId, []);
+      this.proposalLifecycle.schedule(proposal);
       console.log(`Stored consensus proposal: ${proposal.proposalId}`);
+
+      this.earlyVotes.take(proposal).forEach(vote => this.handleConsensusVote(vote));
     }
   }
 
   /**
    * Handle consensus vote
+   *
+   * Votes for a proposal not seen yet wait in a bounded buffer until it
+   * arrives. Votes on settled proposals, or by nodes the proposal does not
+   * list as participants, are dropped.
    */
   private handleConsensusVote(vote: ConsensusVote): void {
-    // Store vote
+    const proposal = this.consensusState.proposals.get(vote.proposalId);
+    if (!proposal) {
+      this.earlyVotes.add(vote);
+      return;
+    }
+
+    if (proposal.status !== 'pending' || !proposal.participants.includes(vote.voter)) {
+      return;
+    }
+
     const votes = this.consensusState.votes.get(vote.proposalId) || [];
-    votes.push(vote);
-    this.consensusState.votes.set(vote.proposalId, votes);
+    const existing = votes.find(v => v.voter === vote.voter);
+
+    if (existing) {
+      if (!this.protocol.isConflictingVote(existing, vote)) {
+        return;  // Duplicate of a vote already counted
+      }
+      this.recordEquivocation(existing, vote);
+    } else {
+      votes.push(vote);
+      this.consensusState.votes.set(vote.proposalId, votes);
+    }
 
     // Check if consensus is achieved
-    const proposal = this.consensusState.proposals.get(vote.proposalId);
+    this.evaluateProposal(vote.proposalId);
+  }
+
+  /**
+   * Re-evaluate a pending proposal against the votes counted so far
+   */
+  private evaluateProposal(proposalId: string): void {
+    const proposal = this.consensusState.proposals.get(proposalId);
+    if (!proposal || proposal.status !== 'pending') {
+      return;
+    }
+
+    const result = this.protocol.processConsensusProposal(proposal, this.getCountedVotes(proposalId));
+    proposal.currentAgreement = result.agreementCount;
+
+    if (result.status !== 'pending') {
+      this.settleProposal(proposal, result.status);
+    }
+  }
+
+  /**
+   * Votes on a proposal, excluding voters caught equivocating
+   */
+  private getCountedVotes(proposalId: string): ConsensusVote[] {
+    const equivocators = new Set(
+      (this.consensusState.equivocations.get(proposalId) || []).map(e => e.voter)
+    );
+    return (this.consensusState.votes.get(proposalId) || []).filter(v => !equivocators.has(v.voter));
+  }
+
+  /**
+   * Expire a proposal that is still pending at its expirationTime
+   */
+  private expireProposal(proposalId: string): void {
+    const proposal = this.consensusState.proposals.get(proposalId);
+    if (proposal && proposal.status === 'pending') {
+      this.settleProposal(proposal, 'timeout');
+    }
+  }
+
+  /**
+   * Record a final status; the proposer announces the outcome to all peers
+   */
+  private settleProposal(proposal: ConsensusProposal, status: ConsensusProposal['status']): void {
+    proposal.status = status;
+    this.proposalLifecycle.settle(proposal.proposalId);
+    console.log(`Consensus ${status} for proposal: ${proposal.proposalId}`);
+
+    if (proposal.proposer === this.nodeId) {
+      this.announceOutcome(proposal);
+    }
+  }
+
+  /**
+   * Broadcast a signed outcome with a certificate over the counted votes
+   *
+   * Every participant becomes a certificate vertex; participants without a
+   * counted agreeing vote are recorded as not agreeing.
+   */
+  private announceOutcome(proposal: ConsensusProposal): void {
+    const countedVotes = this.getCountedVotes(proposal.proposalId);
+    const votesByVoter = new Map(countedVotes.map(vote => [vote.voter, vote]));
+
+    const criteria: DecisionVertex[] = proposal.participants.map(participant => {
+      const vote = votesByVoter.get(participant);
+      return {
+        id: participant,
+        name: participant,
+        agrees: vote?.agrees === true,
+        justification: vote?.justification,
+        weight: this.protocol.getParticipantWeight(proposal, participant),
+        vote: vote?.vote,
+        delegateTo: vote?.delegateTo
+      };
+    });
+
+    const verified = this.consensusEngine.verifyConsensus(
+      criteria,
+      proposal.geometricType,
+      proposal.decision,
+      proposal.abstentions
+    );
+    const certificate = this.consensusEngine.attachProposal(verified.certificate, proposal.proposalId);
+    const outcome: ConsensusOutcome = {
+      proposalId: proposal.proposalId,
+      status: proposal.status,
+      agreementCount: proposal.currentAgreement,
+      requiredCount: proposal.requiredAgreement,
+      voters: countedVotes.map(vote => vote.voter),
+      equivocators: (this.consensusState.equivocations.get(proposal.proposalId) || []).map(e => e.voter),
+      certificate,
+      decidedAt: new Date().toISOString()
+    };
+
+    this.recordOutcome(outcome);
+    this.broadcastToParticipants(this.createNetworkMessage('consensus_outcome', outcome));
+  }
+
+  /**
+   * Handle an outcome announced by a proposal's proposer
+   *
+   * The proposer's certified outcome overrides the local evaluation, which
+   * may have missed votes.
+   */
+  private handleConsensusOutcome(outcome: ConsensusOutcome): void {
+    const proposal = this.consensusState.proposals.get(outcome.proposalId);
     if (proposal) {
-      const result = this.protocol.processConsensusProposal(proposal, votes);
-
-      if (result.status === 'achieved') {
-        console.log(`Consensus achieved for proposal: ${vote.proposalId}`);
-        proposal.status = 'achieved';
-      } else if (result.status === 'failed') {
-        console.log(`Consensus failed for proposal: ${vote.proposalId}`);
-        proposal.status = 'failed';
+      proposal.status = outcome.status;
+      proposal.currentAgreement = outcome.agreementCount;
+    }
+
+    this.proposalLifecycle.settle(outcome.proposalId);
+    this.recordOutcome(outcome);
+  }
+
+  /**
+   * Store an outcome and notify the outcome handler
+   */
+  private recordOutcome(outcome: ConsensusOutcome): void {
+    this.consensusState.outcomes.set(outcome.proposalId, outcome);
+
+    if (this.outcomeHandler) {
+      try {
+        this.outcomeHandler(outcome);
+      } catch (error) {
+        console.error('Error handling consensus outcome:', error);
+      }
+    }
+  }
+
+  /**
+   * Remove proposals that settled longer ago than the retention period
+   */
+  private sweepSettledProposals(): void {
+    this.proposalLifecycle.sweep().forEach(proposalId => {
+      this.consensusState.proposals.delete(proposalId);
+      this.consensusState.votes.delete(proposalId);
+      this.consensusState.equivocations.delete(proposalId);
+      this.consensusState.outcomes.delete(proposalId);
+    });
+  }
+
+  /**
+   * Record equivocation evidence and flag the voter
+   *
+   * Both signed votes are kept so the evidence can be checked by others.
+   */
+  private recordEquivocation(firstVote: ConsensusVote, conflictingVote: ConsensusVote): void {
+    const evidence: EquivocationEvidence = {
+      proposalId: conflictingVote.proposalId,
+      voter: conflictingVote.voter,
+      firstVote,
+      conflictingVote,
+      detectedAt: new Date().toISOString()
+    };
+
+    const proposalEvidence = this.consensusState.equivocations.get(evidence.proposalId) || [];
+    proposalEvidence.push(evidence);
+    this.consensusState.equivocations.set(evidence.proposalId, proposalEvidence);
+    this.consensusState.flaggedVoters.add(evidence.voter);
+
+    console.warn(`Equivocation by ${evidence.voter} on proposal ${evidence.proposalId}`);
+
+    if (this.equivocationHandler) {
+      try {
+        this.equivocationHandler(evidence);
+      } catch (error) {
+        console.error('Error handling equivocation:', error);
       }
     }
   }
@@ -376,45 +894,285 @@ export class UDPGeometricServer {
   private handleHeartbeat(message: NetworkMessage): void {
     // Update participant status
     this.consensusState.participants.add(message.from);
+    this.topologyTracker.recordHeartbeat(message.from, message.data);
+  }
+
+  /**
+   * Handle a peer's gossiped view of its own links
+   */
+  private handleTopologyUpdate(message: NetworkMessage): void {
+    const edges: NetworkEdge[] = Array.isArray(message.data.edges) ? message.data.edges : [];
+    const wellFormed = edges.filter(edge =>
+      edge && typeof edge.from === 'string' && typeof edge.to === 'string' &&
+      Number.isFinite(edge.latency) && Number.isFinite(edge.reliability)
+    );
+
+    this.topologyTracker.mergeReport(message.from, wellFormed);
+    this.updateNetworkTopology();
+  }
+
+  /**
+   * Record the source address of an authenticated message
+   */
+  private recordPeerContact(message: NetworkMessage, remote: RemoteInfo): void {
+    if (message.from === this.nodeId) {
+      return;
+    }
+
+    this.addPeer(message.from, remote.address, remote.port);
+    const peer = this.peers.get(message.from) as NetworkNode;
+    peer.lastSeen = new Date().toISOString();
+    if (Array.isArray(message.data?.capabilities)) {
+      peer.capabilities = message.data.capabilities;
+    }
+
+    this.applyMembershipEvent(this.failureDetector.heartbeat(message.from));
+  }
+
+  /**
+   * Re-evaluate peer liveness and apply any status changes
+   */
+  private checkPeerLiveness(): void {
+    this.failureDetector.check().forEach(event => this.applyMembershipEvent(event));
+  }
+
+  /**
+   * Apply a failure detector event to the address book and participants
+   */
+  private applyMembershipEvent(event: MembershipEvent | null): void {
+    if (!event) {
+      return;
+    }
+
+    const peer = this.peers.get(event.nodeId);
+    if (peer) {
+      peer.status = event.status;
+    }
+
+    if (event.type === 'join') {
+      this.consensusState.participants.add(event.nodeId);
+    } else if (event.type === 'leave') {
+      this.consensusState.participants.delete(event.nodeId);
+      this.topologyTracker.removeReport(event.nodeId);
+    }
+
+    console.log(`Peer ${event.nodeId}: ${event.previousStatus || 'unknown'} → ${event.status}`);
+    this.updateNetworkTopology();
+
+    if (this.membershipHandler) {
+      try {
+        this.membershipHandler(event);
+      } catch (error) {
+        console.error('Error handling membership event:', error);
+      }
+    }
+  }
+
+  /**
+   * Rebuild this node's view of the network and raise partition alarms
+   *
+   * Local edges connect this node to every peer not declared partitioned;
+   * gossiped edges add links between other nodes. Departed nodes nobody
+   * can reach show up as separate components (β₀ > 1). Certificates report
+   * partitions from this view.
+   */
+  private updateNetworkTopology(): void {
+    const self: NetworkNode = {
+      id: this.nodeId,
+      address: this.config.host,
+      port: this.config.port,
+      capabilities: NODE_CAPABILITIES,
+      status: 'active',
+      lastSeen: new Date().toISOString()
+    };
+
+    const previous = this.consensusState.networkTopology;
+    const topology = this.topologyTracker.build(self, this.getPeers());
+    this.consensusState.networkTopology = topology;
+    this.consensusEngine.setReachability(topology);
+
+    if (previous && previous.bettiNumbers.beta_0 !== topology.bettiNumbers.beta_0) {
+      console.log(`Network components changed: β₀ ${previous.bettiNumbers.beta_0} → ${topology.bettiNumbers.beta_0}`);
+      if (this.partitionHandler) {
+        try {
+          this.partitionHandler(topology, previous.bettiNumbers.beta_0);
+        } catch (error) {
+          console.error('Error handling partition alarm:', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Gossip this node's direct links to all peers
+   */
+  private broadcastTopologyUpdate(): void {
+    const update = this.createNetworkMessage('topology_update', {
+      nodeId: this.nodeId,
+      edges: this.topologyTracker.getLocalEdges(this.getPeers())
+    });
+    this.broadcastToParticipants(update);
+  }
+
+  /**
+   * Handle join handshake: reply with our identity and known peers
+   */
+  private handleJoin(message: NetworkMessage): void {
+    const knownPeers = this.getPeers()
+      .filter(peer => peer.id !== message.from)
+      .map(peer => ({ nodeId: peer.id, host: peer.address, port: peer.port }));
+
+    const ack = this.createNetworkMessage(
+      'join_ack',
+      { nodeId: this.nodeId, capabilities: NODE_CAPABILITIES, peers: knownPeers },
+      message.from
+    );
+    this.sendToParticipant(message.from, ack);
   }
 
   /**
-   * Broadcast message to all participants
+   * Handle join acknowledgement: contact peers we did not know yet
+   */
+  private handleJoinAck(message: NetworkMessage): void {
+    const peers: PeerAddress[] = Array.isArray(message.data.peers) ? message.data.peers : [];
+
+    peers
+      .filter(peer => peer.nodeId && peer.nodeId !== this.nodeId && !this.peers.has(peer.nodeId))
+      .forEach(peer => this.sendJoin(peer.host, peer.port));
+  }
+
+  /**
+   * Send join requests to all configured seed peers
+   */
+  private joinSeedPeers(): void {
+    (this.config.peers || []).forEach(seed => this.sendJoin(seed.host, seed.port));
+  }
+
+  /**
+   * Send a join request to an address
+   */
+  private sendJoin(host: string, port: number): void {
+    const join = this.createNetworkMessage('join', {
+      nodeId: this.nodeId,
+      capabilities: NODE_CAPABILITIES
+    });
+    this.sendToAddress(join, host, port);
+  }
+
+  /**
+   * Broadcast message to all known peers
    */
   private broadcastToParticipants(message: NetworkMessage): void {
+    this.peers.forEach(peer => this.sendToAddress(message, peer.address, peer.port));
+  }
+
+  /**
+   * Send a message to a host/port through the reliable transport
+   *
+   * Heartbeats and topology updates are sent unacknowledged, since the next
+   * one supersedes them.
+   * The returned promise resolves once every fragment is acknowledged;
+   * delivery failures are also logged, so callers may ignore it.
+   */
+  private sendToAddress(message: NetworkMessage, host: string, port: number): Promise<void> {
     const messageBuffer = Buffer.from(JSON.stringify(message));
+    const delivery = this.transport.send(messageBuffer, host, port, !UNACKNOWLEDGED_TYPES.has(message.type));
+
+    delivery.catch(error => {
+      if (this.isRunning) {
+        console.error(`Error sending ${message.type} to ${host}:${port}:`, (error as Error).message);
+      }
+    });
 
-    // For demo purposes, broadcast to localhost on different ports
-    // In a real implementation, this would use actual participant addresses
-    const broadcastPorts = [3001, 3002, 3003, 3004];
+    return delivery;
+  }
 
-    broadcastPorts.forEach(port => {
-      if (port !== this.config.port) { // Don't send to self
-        this.socket.send(messageBuffer, port, 'localhost', (error) => {
-          if (error) {
-            console.error(`Error broadcasting to port ${port}:`, error);
-          }
-        });
+  /**
+   * Write one raw datagram to the socket
+   */
+  private sendDatagram(datagram: Buffer, port: number, host: string): void {
+    this.socket.send(datagram, port, host, (error) => {
+      if (error) {
+        console.error(`Error sending datagram to ${host}:${port}:`, error);
       }
     });
   }
 
+  /**
+   * Create a signed network message originating from this node
+   */
+  private createNetworkMessage(type: NetworkMessage['type'], data: unknown, to?: string): NetworkMessage {
+    const message: NetworkMessage = {
+      type,
+      data,
+      timestamp: new Date().toISOString(),
+      from: this.nodeId,
+      to,
+      publicKey: this.signingKeys.publicKey
+    };
+
+    message.id = this.computeMessageId(message);
+    message.signature = signPayload(this.getEnvelopePayload(message), this.signingKeys.privateKey);
+    return message;
+  }
+
+  /**
+   * Content-addressed ID of a network message
+   */
+  private computeMessageId(message: NetworkMessage): string {
+    const { type, data, timestamp, from, to } = message;
+    return contentId('net', { type, data, timestamp, from, to });
+  }
+
+  /**
+   * Record a message ID, returning true if it was already seen
+   *
+   * Keeps a bounded window of recent IDs; the oldest are evicted first.
+   */
+  private isDuplicateMessage(messageId: string): boolean {
+    if (this.recentMessageIds.has(messageId)) {
+      return true;
+    }
+
+    this.recentMessageIds.add(messageId);
+    if (this.recentMessageIds.size > RECENT_MESSAGE_WINDOW) {
+      const oldest = this.recentMessageIds.values().next().value as string;
+      this.recentMessageIds.delete(oldest);
+    }
+
+    return false;
+  }
+
+  /**
+   * Build the signing payload of a network message (everything but the signature)
+   */
+  private getEnvelopePayload(message: NetworkMessage): Omit<NetworkMessage, 'signature'> {
+    const { signature: _signature, ...payload } = message;
+    return payload;
+  }
+
   /**
    * Start heartbeat mechanism
    */
   private startHeartbeat(): void {
-    setInterval(() => {
+    this.heartbeatTimer = setInterval(() => {
       if (this.isRunning) {
-        const heartbeat: NetworkMessage = {
-          type: 'heartbeat',
-          data: { nodeId: this.nodeId, status: 'active' },
-          timestamp: new Date().toISOString(),
-          from: this.nodeId
-        };
+        const heartbeat = this.createNetworkMessage('heartbeat', {
+          nodeId: this.nodeId,
+          status: 'active',
+          ...this.topologyTracker.heartbeatTiming()
+        });
 
         this.broadcastToParticipants(heartbeat);
+        this.checkPeerLiveness();
+        this.topologyTracker.endInterval();
+        this.topologyTracker.expireReports(this.failureTimeout);
+        this.broadcastTopologyUpdate();
+        this.updateNetworkTopology();
+        this.sweepSettledProposals();
+        this.earlyVotes.expire();
       }
-    }, 5000); // Send heartbeat every 5 seconds
+    }, this.config.heartbeatInterval || DEFAULT_HEARTBEAT_INTERVAL);
   }
 
   /**
@@ -429,22 +1187,24 @@ export class UDPGeometricServer {
     );
   }
 
-  /**
-   * Generate unique node ID
-   */
-  private generateNodeId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `node-${timestamp}-${random}`;
-  }
-
   /**
    * Send message to specific participant
+   *
+   * Messages not already signed by this node are re-wrapped in a signed
+   * envelope addressed to the participant. Resolves once the participant
+   * has acknowledged every fragment.
    */
-  sendToParticipant(participantId: string, message: NetworkMessage): void {
-    // For demo purposes, this is a placeholder
-    // In a real implementation, this would use participant address mapping
-    console.log(`Sending message to ${participantId}:`, message.type);
+  sendToParticipant(participantId: string, message: NetworkMessage): Promise<void> {
+    const peer = this.peers.get(participantId);
+    if (!peer) {
+      throw new Error(`No address known for participant ${participantId}`);
+    }
+
+    const envelope = message.signature && message.from === this.nodeId
+      ? message
+      : this.createNetworkMessage(message.type, message.data, participantId);
+
+    return this.sendToAddress(envelope, peer.address, peer.port);
   }
 
   /**
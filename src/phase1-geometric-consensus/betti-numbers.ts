@@ -5,6 +5,9 @@
  * Based on RFC XXXX Appendix I specifications.
  */
 
+import { DynamicConnectivity } from './connectivity.js';
+import { hasPolytope, getPolytope, triangulatePolytope } from './polytope-combinatorics.js';
+
 export interface Vertex {
   id: string;
   name: string;
@@ -26,7 +29,17 @@ export interface BettiNumbers {
 export interface SimplicialComplex {
   vertices: Vertex[];
   edges: Edge[];
-  faces: number[][];  // Triangular faces (for 2D+ complexes)
+  faces: number[][];         // Triangular faces (for 2D+ complexes)
+  tetrahedra?: number[][];   // Solid tetrahedra (for filled 3D complexes)
+}
+
+/**
+ * Simplices of a complex as sorted vertex-index tuples, closed under faces
+ */
+interface ClosedComplex {
+  edges: number[][];
+  triangles: number[][];
+  tetrahedra: number[][];
 }
 
 /**
@@ -41,33 +54,53 @@ export class BettiCalculator {
    * Calculate Betti numbers for a simplicial complex
    *
    * Algorithm:
-   * 1. Build adjacency matrix from vertices and edges
-   * 2. Compute connected components (β₀)
-   * 3. Compute cycles (β₁) using rank-nullity theorem
-   * 4. Compute voids (β₂) for 3D+ complexes
+   * 1. Close the complex under faces (every edge of a triangle, every
+   *    triangle of a tetrahedron is included)
+   * 2. Compute connected components (β₀) with disjoint sets
+   * 3. Compute ranks of the boundary matrices ∂₁, ∂₂, ∂₃ over Z/2
+   * 4. βₖ = dim Cₖ − rank ∂ₖ − rank ∂ₖ₊₁
+   *
+   * Faces and tetrahedra are given as vertex indices. With edges only,
+   * the result is that of the graph (β₁ = E − V + C, β₂ = 0).
    */
-  calculateBettiNumbers(vertices: Vertex[], edges: Edge[]): BettiNumbers {
+  calculateBettiNumbers(
+    vertices: Vertex[],
+    edges: Edge[],
+    faces: number[][] = [],
+    tetrahedra: number[][] = []
+  ): BettiNumbers {
     const n = vertices.length;
 
     if (n === 0) {
       return { beta_0: 0, beta_1: 0, beta_2: 0 };
     }
 
-    // Build adjacency matrix
-    const adjacency = this.buildAdjacencyMatrix(vertices, edges);
+    const complex = this.closeComplex(vertices, edges, faces, tetrahedra);
+
+    // Calculate β₀ (connected components)
+    const beta_0 = this.calculateConnectedComponents(n, complex.edges);
 
-    // Calculate β₀ (connected components) using DFS
-    const beta_0 = this.calculateConnectedComponents(vertices, adjacency);
+    // Boundary ranks; rank ∂₁ = V − β₀ since each component's vertices span one relation
+    const rank1 = n - beta_0;
+    const rank2 = this.boundaryRank(complex.triangles, complex.edges);
+    const rank3 = this.boundaryRank(complex.tetrahedra, complex.triangles);
 
-    // Calculate β₁ (cycles) using rank-nullity theorem
-    const beta_1 = this.calculateCycles(vertices, edges);
+    // Calculate β₁ (cycles not filled by triangles)
+    const beta_1 = this.calculateCycles(complex.edges.length, rank1, rank2);
 
-    // Calculate β₂ (voids) - simplified for 2D complexes
-    const beta_2 = this.calculateVoids(vertices, edges);
+    // Calculate β₂ (voids not filled by tetrahedra)
+    const beta_2 = this.calculateVoids(complex.triangles.length, rank2, rank3);
 
     return { beta_0, beta_1, beta_2 };
   }
 
+  /**
+   * Calculate Betti numbers for a complex from buildSimplicialComplex
+   */
+  calculateComplexBettiNumbers(complex: SimplicialComplex): BettiNumbers {
+    return this.calculateBettiNumbers(complex.vertices, complex.edges, complex.faces, complex.tetrahedra || []);
+  }
+
   /**
    * Detect network partition using Betti numbers
    *
@@ -86,237 +119,196 @@ export class BettiCalculator {
   }
 
   /**
-   * Build adjacency matrix from vertices and edges
+   * Calculate connected components with disjoint sets
+   *
+   * This gives us β₀ (number of connected components) in O(V + E) memory,
+   * without recursion.
    */
-  private buildAdjacencyMatrix(vertices: Vertex[], edges: Edge[]): number[][] {
-    const n = vertices.length;
-    const matrix: number[][] = Array(n).fill(null).map(() => Array(n).fill(0));
-
-    // Create vertex ID to index mapping
-    const vertexIndex = new Map<string, number>();
-    vertices.forEach((v, i) => vertexIndex.set(v.id, i));
-
-    // Fill adjacency matrix
-    edges.forEach(edge => {
-      const fromIndex = vertexIndex.get(edge.from);
-      const toIndex = vertexIndex.get(edge.to);
-
-      if (fromIndex !== undefined && toIndex !== undefined) {
-        matrix[fromIndex][toIndex] = 1;
-        matrix[toIndex][fromIndex] = 1;  // Undirected graph
-      }
-    });
-
-    return matrix;
+  private calculateConnectedComponents(n: number, edges: number[][]): number {
+    const connectivity = new DynamicConnectivity(Array.from({ length: n }, (_, i) => String(i)));
+    edges.forEach(([from, to]) => connectivity.addEdge(String(from), String(to)));
+    return connectivity.componentCount();
   }
 
   /**
-   * Calculate connected components using DFS
+   * Calculate cycles (β₁) using rank-nullity theorem
    *
-   * This gives us β₀ (number of connected components)
+   * β₁ = dim ker ∂₁ − rank ∂₂ = (E − rank ∂₁) − rank ∂₂
+   * Cycles that bound a union of triangles are not counted.
    */
-  private calculateConnectedComponents(vertices: Vertex[], adjacency: number[][]): number {
-    const n = vertices.length;
-    const visited = new Array(n).fill(false);
-    let components = 0;
-
-    for (let i = 0; i < n; i++) {
-      if (!visited[i]) {
-        this.dfs(i, adjacency, visited);
-        components++;
-      }
-    }
-
-    return components;
+  private calculateCycles(edgeCount: number, rank1: number, rank2: number): number {
+    return edgeCount - rank1 - rank2;
   }
 
   /**
-   * Depth-first search for connected components
+   * Calculate voids (β₂) using rank-nullity theorem
+   *
+   * β₂ = dim ker ∂₂ − rank ∂₃ = (T − rank ∂₂) − rank ∂₃
+   * A closed surface such as a hollow octahedron encloses one void; filling
+   * it with tetrahedra removes it.
    */
-  private dfs(vertex: number, adjacency: number[][], visited: boolean[]): void {
-    visited[vertex] = true;
-
-    for (let i = 0; i < adjacency[vertex].length; i++) {
-      if (adjacency[vertex][i] === 1 && !visited[i]) {
-        this.dfs(i, adjacency, visited);
-      }
-    }
+  private calculateVoids(triangleCount: number, rank2: number, rank3: number): number {
+    return triangleCount - rank2 - rank3;
   }
 
   /**
-   * Calculate cycles (β₁) using rank-nullity theorem
+   * Normalize the input simplices and close them under taking faces
    *
-   * For a graph: β₁ = E - V + C
-   * Where E = edges, V = vertices, C = connected components
+   * Edges referencing unknown vertices, self-loops and duplicate simplices
+   * are dropped; face and tetrahedron indices outside the vertex list are
+   * ignored.
    */
-  private calculateCycles(vertices: Vertex[], edges: Edge[]): number {
-    const V = vertices.length;
-    const E = edges.length;
-    const C = this.calculateConnectedComponents(vertices, this.buildAdjacencyMatrix(vertices, edges));
+  private closeComplex(
+    vertices: Vertex[],
+    edges: Edge[],
+    faces: number[][],
+    tetrahedra: number[][]
+  ): ClosedComplex {
+    const vertexIndex = new Map<string, number>();
+    vertices.forEach((v, i) => vertexIndex.set(v.id, i));
+
+    const isSimplex = (simplex: number[], size: number) =>
+      simplex.length === size &&
+      simplex.every(i => Number.isInteger(i) && i >= 0 && i < vertices.length) &&
+      new Set(simplex).size === size;
+
+    const edgeSet = new Map<string, number[]>();
+    const triangleSet = new Map<string, number[]>();
+    const tetrahedronSet = new Map<string, number[]>();
+    const add = (set: Map<string, number[]>, simplex: number[]) => {
+      const sorted = [...simplex].sort((a, b) => a - b);
+      set.set(sorted.join(','), sorted);
+    };
+
+    edges.forEach(edge => {
+      const from = vertexIndex.get(edge.from);
+      const to = vertexIndex.get(edge.to);
+      if (from !== undefined && to !== undefined && from !== to) {
+        add(edgeSet, [from, to]);
+      }
+    });
+
+    tetrahedra.filter(t => isSimplex(t, 4)).forEach(tetrahedron => {
+      add(tetrahedronSet, tetrahedron);
+      this.boundaryOf(tetrahedron).forEach(triangle => add(triangleSet, triangle));
+    });
+
+    faces.filter(f => isSimplex(f, 3)).forEach(face => add(triangleSet, face));
+
+    triangleSet.forEach(triangle => {
+      this.boundaryOf(triangle).forEach(edge => add(edgeSet, edge));
+    });
 
-    // β₁ = E - V + C (Euler characteristic for graphs)
-    return Math.max(0, E - V + C);
+    return {
+      edges: Array.from(edgeSet.values()),
+      triangles: Array.from(triangleSet.values()),
+      tetrahedra: Array.from(tetrahedronSet.values())
+    };
   }
 
   /**
-   * Calculate voids (β₂) for 3D+ complexes
-   *
-   * Simplified calculation for 2D simplicial complexes
-   * For full 3D calculation, would need tetrahedral faces
+   * Faces of a simplex: the simplex with one vertex removed, for each vertex
    */
-  private calculateVoids(_vertices: Vertex[], _edges: Edge[]): number {
-    // For 2D complexes, β₂ is typically 0 unless we have enclosed regions
-    // This is a simplified implementation
-    return 0;
+  private boundaryOf(simplex: number[]): number[][] {
+    return simplex.map((_, i) => simplex.filter((_, j) => j !== i));
   }
 
   /**
-   * Build simplicial complex from geometric shape
+   * Rank over Z/2 of the boundary matrix from simplices to their faces
    *
-   * Converts a geometric shape into a simplicial complex for Betti calculation
+   * Column reduction: each column (a simplex boundary, as sorted face
+   * indices) is reduced by earlier columns sharing its lowest entry until
+   * it is zero or has a new pivot. The rank is the number of pivots.
    */
-  buildSimplicialComplex(shapeType: string, vertices: Vertex[]): SimplicialComplex {
-    const edges: Edge[] = [];
-    const faces: number[][] = [];
-
-    // Build edges based on geometric shape
-    switch (shapeType) {
-      case 'TETRAHEDRON':
-        // Tetrahedron: 4 vertices, 6 edges, 4 triangular faces
-        this.buildTetrahedronEdges(vertices, edges);
-        this.buildTetrahedronFaces(vertices, faces);
-        break;
-
-      case 'CUBE':
-        // Cube: 8 vertices, 12 edges, 6 square faces (as 2 triangles each)
-        this.buildCubeEdges(vertices, edges);
-        this.buildCubeFaces(vertices, faces);
-        break;
-
-      case 'OCTAHEDRON':
-        // Octahedron: 6 vertices, 12 edges, 8 triangular faces
-        this.buildOctahedronEdges(vertices, edges);
-        this.buildOctahedronFaces(vertices, faces);
-        break;
-
-      default:
-        // Default: build edges between all vertices (complete graph)
-        this.buildCompleteGraphEdges(vertices, edges);
-        break;
-    }
+  private boundaryRank(simplices: number[][], faces: number[][]): number {
+    const faceIndex = new Map<string, number>();
+    faces.forEach((face, i) => faceIndex.set(face.join(','), i));
+
+    const pivots = new Map<number, number[]>();
+    let rank = 0;
+
+    simplices.forEach(simplex => {
+      let column = this.boundaryOf(simplex)
+        .map(face => faceIndex.get(face.join(',')) as number)
+        .sort((a, b) => a - b);
+
+      while (column.length > 0) {
+        const low = column[column.length - 1];
+        const pivot = pivots.get(low);
+        if (!pivot) {
+          pivots.set(low, column);
+          rank++;
+          return;
+        }
+        column = this.addMod2(column, pivot);
+      }
+    });
 
-    return { vertices, edges, faces };
+    return rank;
   }
 
   /**
-   * Build tetrahedron edges (4 vertices, 6 edges)
+   * Sum of two sorted Z/2 columns (symmetric difference)
    */
-  private buildTetrahedronEdges(vertices: Vertex[], edges: Edge[]): void {
-    if (vertices.length !== 4) {
-      throw new Error('Tetrahedron requires exactly 4 vertices');
-    }
-
-    // All pairs of vertices are connected in a tetrahedron
-    for (let i = 0; i < 4; i++) {
-      for (let j = i + 1; j < 4; j++) {
-        edges.push({
-          id: `edge-${i}-${j}`,
-          from: vertices[i].id,
-          to: vertices[j].id
-        });
+  private addMod2(a: number[], b: number[]): number[] {
+    const result: number[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length || j < b.length) {
+      if (j >= b.length || (i < a.length && a[i] < b[j])) {
+        result.push(a[i++]);
+      } else if (i >= a.length || b[j] < a[i]) {
+        result.push(b[j++]);
+      } else {
+        i++;
+        j++;
       }
     }
-  }
 
-  /**
-   * Build tetrahedron faces (4 triangular faces)
-   */
-  private buildTetrahedronFaces(_vertices: Vertex[], faces: number[][]): void {
-    // Four triangular faces of tetrahedron
-    faces.push([0, 1, 2]);
-    faces.push([0, 1, 3]);
-    faces.push([0, 2, 3]);
-    faces.push([1, 2, 3]);
+    return result;
   }
 
   /**
-   * Build cube edges (8 vertices, 12 edges)
+   * Build simplicial complex from geometric shape
+   *
+   * Converts a geometric shape into a simplicial complex for Betti calculation,
+   * using the shape's generated polytope combinatorics: polytope edges,
+   * triangulated 2-faces and, for 4D polytopes, triangulated cells. Vertex i
+   * is placed on polytope vertex i; with fewer vertices than the shape has,
+   * only the simplices among the placed vertices are kept. Unknown shape
+   * types and custom shapes without generated geometry fall back to a
+   * complete graph.
    */
-  private buildCubeEdges(vertices: Vertex[], edges: Edge[]): void {
-    if (vertices.length !== 8) {
-      throw new Error('Cube requires exactly 8 vertices');
+  buildSimplicialComplex(shapeType: string, vertices: Vertex[]): SimplicialComplex {
+    if (!hasPolytope(shapeType)) {
+      const edges: Edge[] = [];
+      this.buildCompleteGraphEdges(vertices, edges);
+      return { vertices, edges, faces: [] };
     }
 
-    // Cube edge connections (simplified - would need proper 3D coordinates)
-    const cubeConnections = [
-      [0, 1], [1, 2], [2, 3], [3, 0],  // Bottom face
-      [4, 5], [5, 6], [6, 7], [7, 4],  // Top face
-      [0, 4], [1, 5], [2, 6], [3, 7]   // Vertical edges
-    ];
-
-    cubeConnections.forEach(([from, to], index) => {
-      edges.push({
-        id: `cube-edge-${index}`,
-        from: vertices[from].id,
-        to: vertices[to].id
-      });
-    });
-  }
+    const polytope = getPolytope(shapeType);
+    if (vertices.length > polytope.coordinates.length) {
+      throw new Error(
+        `${shapeType} has ${polytope.coordinates.length} vertices, cannot place ${vertices.length}`
+      );
+    }
 
-  /**
-   * Build cube faces (6 square faces as 2 triangles each)
-   */
-  private buildCubeFaces(_vertices: Vertex[], faces: number[][]): void {
-    // Cube faces (simplified - would need proper 3D coordinates)
-    const cubeFaces = [
-      [0, 1, 2], [0, 2, 3],  // Bottom face
-      [4, 5, 6], [4, 6, 7],  // Top face
-      [0, 1, 5], [0, 5, 4],  // Front face
-      [2, 3, 7], [2, 7, 6],  // Back face
-      [0, 3, 7], [0, 7, 4],  // Left face
-      [1, 2, 6], [1, 6, 5]   // Right face
-    ];
-
-    faces.push(...cubeFaces);
-  }
+    const placed = (simplex: number[]) => simplex.every(i => i < vertices.length);
+    const { triangles, tetrahedra } = triangulatePolytope(polytope);
 
-  /**
-   * Build octahedron edges (6 vertices, 12 edges)
-   */
-  private buildOctahedronEdges(vertices: Vertex[], edges: Edge[]): void {
-    if (vertices.length !== 6) {
-      throw new Error('Octahedron requires exactly 6 vertices');
-    }
+    const edges: Edge[] = polytope.edges.filter(placed).map(([from, to]) => ({
+      id: `edge-${from}-${to}`,
+      from: vertices[from].id,
+      to: vertices[to].id
+    }));
 
-    // Octahedron edge connections
-    const octaConnections = [
-      [0, 1], [0, 2], [0, 3], [0, 4],  // From vertex 0
-      [1, 2], [1, 3], [1, 5],          // From vertex 1
-      [2, 4], [2, 5],                  // From vertex 2
-      [3, 4], [3, 5],                  // From vertex 3
-      [4, 5]                           // From vertex 4
-    ];
-
-    octaConnections.forEach(([from, to], index) => {
-      edges.push({
-        id: `octa-edge-${index}`,
-        from: vertices[from].id,
-        to: vertices[to].id
-      });
-    });
-  }
+    const complex: SimplicialComplex = { vertices, edges, faces: triangles.filter(placed) };
+    if (polytope.dimension === 4) {
+      complex.tetrahedra = tetrahedra.filter(placed);
+    }
 
-  /**
-   * Build octahedron faces (8 triangular faces)
-   */
-  private buildOctahedronFaces(_vertices: Vertex[], faces: number[][]): void {
-    // Octahedron faces (8 triangular faces)
-    const octaFaces = [
-      [0, 1, 2], [0, 2, 4], [0, 4, 3], [0, 3, 1],  // Upper faces
-      [5, 1, 2], [5, 2, 4], [5, 4, 3], [5, 3, 1]   // Lower faces
-    ];
-
-    faces.push(...octaFaces);
+    return complex;
   }
 
   /**
@@ -0,0 +1,253 @@
+/**
+ * Tamper-Evident Consensus Certificates
+ *
+ * Seals a ConsensusCertificate with a SHA-256 content hash over its
+ * canonical encoding and collects Ed25519 signatures over that hash, from
+ * the issuing node and/or the agreeing vertices. `verifyCertificate` checks
+ * an archived certificate offline, trusting only the supplied public keys.
+ */
+
+import { getGeometricShape } from './geometric-types.js';
+import { VoteEvaluation, evaluateVotes, resolveVotes } from './vote-resolution.js';
+import { ConsensusCertificate } from './geometric-consensus.js';
+import { canonicalize, hashCanonical } from '../crypto/canonical.js';
+import { signPayload, verifyPayload } from '../crypto/signatures.js';
+import { KeyRegistry } from '../crypto/key-registry.js';
+
+export interface CertificateSignature {
+  signer: string;               // Issuing node ID or DecisionVertex ID
+  role: 'issuer' | 'vertex';
+  publicKey: string;            // base64 SPKI Ed25519 key
+  signature: string;            // Signature over the content hash
+}
+
+export interface CertificateVerificationResult {
+  valid: boolean;
+  hashValid: boolean;
+  mathValid: boolean;
+  trustedSigners: string[];
+  errors: string[];
+}
+
+export interface CertificateVerificationOptions {
+  requireVertexSignatures?: boolean;  // Every agreeing vertex must co-sign
+}
+
+/**
+ * Compute the content hash of a certificate
+ *
+ * Covers every field except the hash itself and the signature set, so
+ * signatures can be added without changing the hash.
+ */
+export function hashCertificate(certificate: ConsensusCertificate): string {
+  const { contentHash: _contentHash, signatures: _signatures, ...content } = certificate;
+  return hashCanonical(content);
+}
+
+/**
+ * Return a copy of the certificate with its content hash set
+ */
+export function sealCertificate(certificate: ConsensusCertificate): ConsensusCertificate {
+  return {
+    ...certificate,
+    contentHash: hashCertificate(certificate)
+  };
+}
+
+/**
+ * Add a signature over the certificate's content hash
+ *
+ * Seals the certificate first if needed. A signer that already signed is
+ * replaced rather than duplicated.
+ */
+export function signCertificate(
+  certificate: ConsensusCertificate,
+  signer: string,
+  role: 'issuer' | 'vertex',
+  publicKey: string,
+  privateKey: string
+): ConsensusCertificate {
+  const sealed = certificate.contentHash ? certificate : sealCertificate(certificate);
+  const contentHash = sealed.contentHash as string;
+
+  const signature: CertificateSignature = {
+    signer,
+    role,
+    publicKey,
+    signature: signPayload({ certificateId: sealed.certificateId, contentHash }, privateKey)
+  };
+
+  const others = (sealed.signatures || []).filter(s => !(s.signer === signer && s.role === role));
+
+  return {
+    ...sealed,
+    signatures: [...others, signature]
+  };
+}
+
+/**
+ * Verify a certificate without trusting its issuer
+ *
+ * Checks, in order:
+ * 1. The content hash matches the canonical encoding of the certificate
+ * 2. The shape matches the registry entry for its geometric type
+ * 3. agreesCount, requiredCount, threshold, weight totals (if weighted),
+ *    the vote tally (abstentions, vetoes, delegations) and validity
+ *    recompute exactly; a certificate with more vertices than its shape is
+ *    never valid
+ * 4. Signatures verify over the hash with trusted keys only: either a
+ *    plain signer ID → public key map (embedded keys are ignored), or a
+ *    KeyRegistry, in which case the embedded key must have been valid for
+ *    the signer at the certificate timestamp and never revoked
+ * 5. At least one trusted signature exists, and every vertex whose resolved
+ *    vote is agree has signed if vertex signatures are required or any are
+ *    present
+ */
+export function verifyCertificate(
+  certificate: ConsensusCertificate,
+  trustedKeys: Record<string, string> | KeyRegistry,
+  options: CertificateVerificationOptions = {}
+): CertificateVerificationResult {
+  const errors: string[] = [];
+
+  // 1. Content hash
+  const expectedHash = hashCertificate(certificate);
+  const hashValid = certificate.contentHash === expectedHash;
+  if (!certificate.contentHash) {
+    errors.push('Certificate is not sealed (missing content hash)');
+  } else if (!hashValid) {
+    errors.push('Content hash does not match certificate contents');
+  }
+
+  // 2-3. Shape and threshold math
+  const mathErrors = verifyCertificateMath(certificate);
+  errors.push(...mathErrors);
+  const mathValid = mathErrors.length === 0;
+
+  // 4. Signatures
+  const trustedSigners: string[] = [];
+  const vertexSigners = new Set<string>();
+  const vertexIds = new Set(certificate.vertices.map(v => v.id));
+
+  for (const entry of certificate.signatures || []) {
+    const trustedKey = resolveTrustedKey(trustedKeys, entry, certificate.timestamp);
+    if (!trustedKey) {
+      errors.push(`Signer ${entry.signer} is not trusted`);
+      continue;
+    }
+
+    const payload = { certificateId: certificate.certificateId, contentHash: expectedHash };
+    if (!verifyPayload(payload, entry.signature, trustedKey)) {
+      errors.push(`Invalid signature from ${entry.signer}`);
+      continue;
+    }
+
+    if (entry.role === 'vertex') {
+      if (!vertexIds.has(entry.signer)) {
+        errors.push(`Vertex signature from ${entry.signer}, which is not a certificate vertex`);
+        continue;
+      }
+      vertexSigners.add(entry.signer);
+    }
+
+    trustedSigners.push(entry.signer);
+  }
+
+  // 5. Signature coverage
+  if (trustedSigners.length === 0) {
+    errors.push('No trusted signatures');
+  }
+
+  const hasVertexSignatures = (certificate.signatures || []).some(s => s.role === 'vertex');
+  if (options.requireVertexSignatures || hasVertexSignatures) {
+    const { values } = resolveVotes(certificate.vertices);
+    const unsigned = certificate.vertices
+      .filter((v, i) => values[i] === 'agree' && !vertexSigners.has(v.id))
+      .map(v => v.id);
+    if (unsigned.length > 0) {
+      errors.push(`Agreeing vertices without a trusted signature: ${unsigned.join(', ')}`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    hashValid,
+    mathValid,
+    trustedSigners,
+    errors
+  };
+}
+
+/**
+ * Look up the key a signature must verify against, if the signer is trusted
+ */
+function resolveTrustedKey(
+  trustedKeys: Record<string, string> | KeyRegistry,
+  entry: CertificateSignature,
+  timestamp: string
+): string | undefined {
+  if (isKeyRegistry(trustedKeys)) {
+    return trustedKeys.isTrusted(entry.signer, entry.publicKey, timestamp) ? entry.publicKey : undefined;
+  }
+  return Object.prototype.hasOwnProperty.call(trustedKeys, entry.signer) ? trustedKeys[entry.signer] : undefined;
+}
+
+function isKeyRegistry(value: Record<string, string> | KeyRegistry): value is KeyRegistry {
+  return typeof (value as KeyRegistry).isTrusted === 'function';
+}
+
+/**
+ * Recompute the threshold math of a certificate from the shape registry
+ */
+function verifyCertificateMath(certificate: ConsensusCertificate): string[] {
+  const errors: string[] = [];
+
+  let shape;
+  try {
+    shape = getGeometricShape(certificate.geometricType);
+    if (canonicalize(shape) !== canonicalize(certificate.shape)) {
+      errors.push(`Shape does not match registry entry for ${certificate.geometricType}`);
+    }
+  } catch (error) {
+    return [(error as Error).message];
+  }
+
+  let evaluation: VoteEvaluation;
+  try {
+    evaluation = evaluateVotes(shape, certificate.vertices, {
+      abstentions: certificate.tally?.abstentions,
+      weighted: certificate.weightTotals !== undefined
+    });
+  } catch (error) {
+    return [...errors, (error as Error).message];
+  }
+
+  if (evaluation.agreesCount !== certificate.agreesCount) {
+    errors.push(`agreesCount ${certificate.agreesCount} does not match ${evaluation.agreesCount} agreeing vertices`);
+  }
+
+  if (evaluation.requiredCount !== certificate.requiredCount) {
+    errors.push(`requiredCount ${certificate.requiredCount} should be ${evaluation.requiredCount}`);
+  }
+
+  if (shape.threshold !== certificate.thresholdPercentage) {
+    errors.push(`thresholdPercentage ${certificate.thresholdPercentage} should be ${shape.threshold}`);
+  }
+
+  const totals = evaluation.weightTotals;
+  if (totals && canonicalize(totals) !== canonicalize(certificate.weightTotals)) {
+    errors.push(`weightTotals should be agreeing ${totals.agreeing}, total ${totals.total}, required ${totals.required}`);
+  }
+
+  if (certificate.tally && canonicalize(evaluation.tally) !== canonicalize(certificate.tally)) {
+    errors.push('tally does not match the resolved votes');
+  }
+
+  // A partition rule that did not let the decision stand withdraws validity
+  const expectedValid = evaluation.valid && certificate.partitionInfo?.stands !== false;
+  if (expectedValid !== certificate.valid) {
+    errors.push(`valid flag ${certificate.valid} should be ${expectedValid}`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,239 @@
+/**
+ * Dynamic Connectivity via Disjoint Sets
+ *
+ * Tracks connected components under vertex and edge insertions and
+ * deletions without an adjacency matrix or recursion, so β₀ of a
+ * 10k-node topology can be maintained every heartbeat.
+ *
+ * Components are disjoint sets with weighted union (the smaller set is
+ * relabelled into the larger), giving O(1) find and O(log n) amortized
+ * relabelling per vertex over any sequence of insertions. Deleting an edge
+ * runs two interleaved breadth-first searches from its endpoints; if they
+ * do not meet, the side that was exhausted first (the smaller one) becomes
+ * a new set, so a split costs time proportional to the smaller side.
+ */
+
+export class DynamicConnectivity {
+  private adjacency: Map<string, Map<string, number>>;  // vertex → neighbor → edge multiplicity
+  private labels: Map<string, number>;                  // vertex → component label
+  private members: Map<number, Set<string>>;            // component label → vertices
+  private nextLabel: number;
+
+  constructor(vertexIds: Iterable<string> = []) {
+    this.adjacency = new Map();
+    this.labels = new Map();
+    this.members = new Map();
+    this.nextLabel = 0;
+
+    for (const id of vertexIds) {
+      this.addVertex(id);
+    }
+  }
+
+  /**
+   * Add an isolated vertex (no-op if it exists)
+   */
+  addVertex(id: string): void {
+    if (this.adjacency.has(id)) {
+      return;
+    }
+
+    const label = this.nextLabel++;
+    this.adjacency.set(id, new Map());
+    this.labels.set(id, label);
+    this.members.set(label, new Set([id]));
+  }
+
+  /**
+   * Remove a vertex and all of its edges
+   */
+  removeVertex(id: string): void {
+    const neighbors = this.adjacency.get(id);
+    if (!neighbors) {
+      return;
+    }
+
+    Array.from(neighbors.keys()).forEach(neighbor => {
+      neighbors.set(neighbor, 1);
+      this.removeEdge(id, neighbor);
+    });
+
+    const label = this.labels.get(id) as number;
+    this.members.delete(label);
+    this.labels.delete(id);
+    this.adjacency.delete(id);
+  }
+
+  /**
+   * Add an undirected edge, creating missing vertices
+   *
+   * Parallel edges are counted, so each must be removed separately.
+   * Self-loops only create the vertex. Returns true if two components merged.
+   */
+  addEdge(from: string, to: string): boolean {
+    this.addVertex(from);
+    this.addVertex(to);
+    if (from === to) {
+      return false;
+    }
+
+    const fromNeighbors = this.adjacency.get(from) as Map<string, number>;
+    const toNeighbors = this.adjacency.get(to) as Map<string, number>;
+    fromNeighbors.set(to, (fromNeighbors.get(to) || 0) + 1);
+    toNeighbors.set(from, (toNeighbors.get(from) || 0) + 1);
+
+    return this.union(from, to);
+  }
+
+  /**
+   * Remove one copy of an undirected edge
+   *
+   * Returns true if the removal split a component in two.
+   */
+  removeEdge(from: string, to: string): boolean {
+    const fromNeighbors = this.adjacency.get(from);
+    const toNeighbors = this.adjacency.get(to);
+    const count = fromNeighbors?.get(to);
+    if (!fromNeighbors || !toNeighbors || !count) {
+      return false;
+    }
+
+    if (count > 1) {
+      fromNeighbors.set(to, count - 1);
+      toNeighbors.set(from, count - 1);
+      return false;
+    }
+
+    fromNeighbors.delete(to);
+    toNeighbors.delete(from);
+
+    const separated = this.findSeparatedSide(from, to);
+    if (!separated) {
+      return false;
+    }
+
+    // The smaller, exhausted side becomes a new component
+    const oldLabel = this.labels.get(from) as number;
+    const newLabel = this.nextLabel++;
+    const oldMembers = this.members.get(oldLabel) as Set<string>;
+    separated.forEach(id => {
+      oldMembers.delete(id);
+      this.labels.set(id, newLabel);
+    });
+    this.members.set(newLabel, separated);
+
+    return true;
+  }
+
+  /**
+   * Whether two vertices are in the same component
+   */
+  connected(a: string, b: string): boolean {
+    const labelA = this.labels.get(a);
+    return labelA !== undefined && labelA === this.labels.get(b);
+  }
+
+  /**
+   * Number of connected components (β₀)
+   */
+  componentCount(): number {
+    return this.members.size;
+  }
+
+  /**
+   * Whether a vertex exists
+   */
+  hasVertex(id: string): boolean {
+    return this.adjacency.has(id);
+  }
+
+  /**
+   * Number of vertices
+   */
+  vertexCount(): number {
+    return this.adjacency.size;
+  }
+
+  /**
+   * Connected components, ordered by their earliest-added vertex
+   */
+  getComponents(): Set<string>[] {
+    const byLabel = new Map<number, Set<string>>();
+
+    this.labels.forEach((label, id) => {
+      const component = byLabel.get(label) || new Set<string>();
+      component.add(id);
+      byLabel.set(label, component);
+    });
+
+    return Array.from(byLabel.values());
+  }
+
+  /**
+   * Merge the components of two vertices, relabelling the smaller one
+   */
+  private union(a: string, b: string): boolean {
+    const labelA = this.labels.get(a) as number;
+    const labelB = this.labels.get(b) as number;
+    if (labelA === labelB) {
+      return false;
+    }
+
+    const membersA = this.members.get(labelA) as Set<string>;
+    const membersB = this.members.get(labelB) as Set<string>;
+    const [keep, merge, mergeLabel] = membersA.size >= membersB.size
+      ? [labelA, membersB, labelB]
+      : [labelB, membersA, labelA];
+
+    const kept = this.members.get(keep) as Set<string>;
+    merge.forEach(id => {
+      kept.add(id);
+      this.labels.set(id, keep);
+    });
+    this.members.delete(mergeLabel);
+
+    return true;
+  }
+
+  /**
+   * Search from both endpoints of a deleted edge in lockstep
+   *
+   * Returns the vertices reachable from the side whose search ran out
+   * first, or null if the two searches met (still connected).
+   */
+  private findSeparatedSide(a: string, b: string): Set<string> | null {
+    const seenA = new Set([a]);
+    const seenB = new Set([b]);
+    const queueA = [a];
+    const queueB = [b];
+    let headA = 0;
+    let headB = 0;
+
+    while (headA < queueA.length && headB < queueB.length) {
+      if (this.expand(queueA[headA++], seenA, queueA, seenB)) {
+        return null;
+      }
+      if (this.expand(queueB[headB++], seenB, queueB, seenA)) {
+        return null;
+      }
+    }
+
+    return headA >= queueA.length ? seenA : seenB;
+  }
+
+  /**
+   * Visit one vertex's neighbors; returns true if the other search was reached
+   */
+  private expand(vertex: string, seen: Set<string>, queue: string[], other: Set<string>): boolean {
+    for (const neighbor of (this.adjacency.get(vertex) as Map<string, number>).keys()) {
+      if (other.has(neighbor)) {
+        return true;
+      }
+      if (!seen.has(neighbor)) {
+        seen.add(neighbor);
+        queue.push(neighbor);
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * Consensus Sessions
+ *
+ * A decision taken over time rather than in one call. Participants are
+ * fixed when the session opens; ballots arrive one at a time and can be
+ * revised until their round closes. Each round decides one keyword on the
+ * shape selected for the participants, and participants who have not voted
+ * count as not agreeing. A round that passes escalates the session to the
+ * next stage of its ladder (e.g. MAY → SHOULD → MUST, or local →
+ * federation), carrying every ballot over so voters only revise. The
+ * session closes when a round fails, the last stage passes, or it is
+ * closed explicitly, and issues one certificate holding every round and
+ * every ballot cast.
+ */
+
+import { GeometricShape, ShapeType } from './geometric-types.js';
+import { ConsensusStrength } from './shape-selection.js';
+import { VOTE_VALUES, isVetoed } from './vote-resolution.js';
+import {
+  ConsensusCertificate,
+  ConsensusResult,
+  DecisionVertex,
+  GeometricConsensus,
+  SessionRoundRecord,
+  VoteHistoryEntry
+} from './geometric-consensus.js';
+import { generateId } from '../crypto/ids.js';
+
+export interface SessionStage {
+  strength: ConsensusStrength;
+  context: GeometricShape['context'];
+}
+
+export interface SessionParticipant {
+  id: string;
+  name: string;
+  weight?: number;  // Vote weight in weighted mode; ballots cannot set their own
+}
+
+export interface SessionProgress {
+  sessionId: string;
+  round: number;
+  keyword: string;           // e.g. SHOULD_LOCAL
+  shapeType: ShapeType;
+  participantCount: number;
+  votesCast: number;         // Participants with a ballot in this round, carried-over ballots excluded
+  agreesCount: number;
+  requiredCount: number;
+  remaining: number;         // Agreeing votes (weight, in weighted mode) still needed; 0 once reached
+  reached: boolean;          // The round passes if it closes now
+  message: string;           // e.g. "needs 2 more for SHOULD_LOCAL"
+}
+
+export type SessionEventType = 'vote' | 'revision' | 'round_closed' | 'escalated' | 'closed';
+
+export interface SessionEvent {
+  type: SessionEventType;
+  progress: SessionProgress;            // The round the event belongs to; the new round when escalated
+  certificate?: ConsensusCertificate;   // Round certificate on round_closed, final certificate on closed
+  timestamp: string;
+}
+
+export interface ConsensusSessionOptions {
+  participants: SessionParticipant[];
+  stages: SessionStage[];         // Escalation ladder, one round per stage, weakest first
+  sessionId?: string;             // Generated when omitted
+  description?: string;
+  engine?: GeometricConsensus;    // Issues the certificates; defaults to an unsigned head-count engine
+}
+
+interface SessionRound {
+  round: number;
+  stage: SessionStage;
+  keyword: string;
+  openedAt: string;
+  closedAt?: string;
+  result?: ConsensusResult;
+}
+
+/**
+ * Multi-round consensus decision with revisable votes
+ */
+export class ConsensusSession {
+  private sessionId: string;
+  private participants: Map<string, SessionParticipant>;
+  private stages: SessionStage[];
+  private description?: string;
+  private engine: GeometricConsensus;
+  private rounds: SessionRound[];
+  private ballots: Map<string, DecisionVertex>;  // Participant ID → current ballot, across rounds
+  private votedThisRound: Set<string>;
+  private history: VoteHistoryEntry[];
+  private finalCertificate?: ConsensusCertificate;
+  private progressHandler?: (event: SessionEvent) => void;
+
+  constructor(options: ConsensusSessionOptions, now: number = Date.now()) {
+    if (options.participants.length === 0) {
+      throw new Error('A consensus session needs at least one participant');
+    }
+    if (options.stages.length === 0) {
+      throw new Error('A consensus session needs at least one stage');
+    }
+
+    this.sessionId = options.sessionId ?? generateId('session');
+    this.participants = new Map();
+    options.participants.forEach(participant => {
+      if (this.participants.has(participant.id)) {
+        throw new Error(`Duplicate participant ${participant.id} in session ${this.sessionId}`);
+      }
+      if (participant.weight !== undefined && !(Number.isFinite(participant.weight) && participant.weight >= 0)) {
+        throw new Error(`Vote weight must be a non-negative number, got ${participant.weight} for ${participant.id}`);
+      }
+      this.participants.set(participant.id, participant);
+    });
+    this.stages = options.stages;
+    this.description = options.description;
+    this.engine = options.engine ?? new GeometricConsensus();
+    this.rounds = [];
+    this.ballots = new Map();
+    this.votedThisRound = new Set();
+    this.history = [];
+
+    this.openRound(now);
+  }
+
+  /**
+   * Register progress handler
+   *
+   * Called after every ballot, when a round closes, when the session
+   * escalates, and when it closes.
+   */
+  onProgress(handler: (event: SessionEvent) => void): void {
+    this.progressHandler = handler;
+  }
+
+  /**
+   * Cast or revise a participant's ballot in the current round
+   *
+   * The participant's name and weight come from the session, not the
+   * ballot. Returns the round's progress with the ballot counted.
+   */
+  castVote(vertex: DecisionVertex, now: number = Date.now()): SessionProgress {
+    if (this.isClosed()) {
+      throw new Error(`Session ${this.sessionId} is closed`);
+    }
+
+    const participant = this.participants.get(vertex.id);
+    if (!participant) {
+      throw new Error(`${vertex.id} is not a participant in session ${this.sessionId}`);
+    }
+    if (vertex.vote !== undefined && !VOTE_VALUES.includes(vertex.vote)) {
+      throw new Error(`Unknown vote value ${vertex.vote} for ${vertex.id}`);
+    }
+
+    const round = this.currentRound();
+    const ballot = this.toBallot(vertex, participant);
+    const revision = this.votedThisRound.has(participant.id);
+
+    this.ballots.set(participant.id, ballot);
+    this.votedThisRound.add(participant.id);
+    this.history.push({
+      round: round.round,
+      keyword: round.keyword,
+      vertex: ballot,
+      revision,
+      recordedAt: new Date(now).toISOString()
+    });
+
+    const progress = this.describe(round, this.evaluate(round.stage));
+    this.emit(revision ? 'revision' : 'vote', progress, now);
+
+    return progress;
+  }
+
+  /**
+   * Progress of the current round, or of the last round once closed
+   */
+  getProgress(): SessionProgress {
+    const round = this.currentRound();
+    return this.describe(round, round.result ?? this.evaluate(round.stage));
+  }
+
+  /**
+   * Close the current round
+   *
+   * A round that passes escalates to the next stage, if any; otherwise the
+   * session closes. Returns the round's result.
+   */
+  closeRound(now: number = Date.now()): ConsensusResult {
+    const round = this.settleRound(now);
+    const result = round.result as ConsensusResult;
+
+    if (result.success && this.rounds.length < this.stages.length) {
+      this.openRound(now);
+      this.emit('escalated', this.getProgress(), now);
+    } else {
+      this.finish(now);
+    }
+
+    return result;
+  }
+
+  /**
+   * Close the session without escalating further
+   *
+   * The open round is decided first. Returns the final certificate.
+   */
+  close(now: number = Date.now()): ConsensusCertificate {
+    if (!this.finalCertificate) {
+      this.settleRound(now);
+      this.finish(now);
+    }
+    return this.finalCertificate as ConsensusCertificate;
+  }
+
+  /**
+   * Whether the session has closed
+   */
+  isClosed(): boolean {
+    return this.finalCertificate !== undefined;
+  }
+
+  /**
+   * Session ID
+   */
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  /**
+   * Stage of the current (or last) round
+   */
+  getCurrentStage(): SessionStage {
+    return this.currentRound().stage;
+  }
+
+  /**
+   * Every ballot cast so far, in order
+   */
+  getHistory(): VoteHistoryEntry[] {
+    return [...this.history];
+  }
+
+  /**
+   * Final certificate, once the session has closed
+   *
+   * This is the certificate of the last round that passed, or of the last
+   * round if none did, with the session record attached.
+   */
+  getFinalCertificate(): ConsensusCertificate | undefined {
+    return this.finalCertificate;
+  }
+
+  /**
+   * Open a round for the next stage of the ladder
+   */
+  private openRound(now: number): void {
+    const stage = this.stages[this.rounds.length];
+    this.rounds.push({
+      round: this.rounds.length + 1,
+      stage,
+      keyword: `${stage.strength}_${stage.context.toUpperCase()}`,
+      openedAt: new Date(now).toISOString()
+    });
+    this.votedThisRound.clear();
+  }
+
+  /**
+   * Decide the current round and notify the handler
+   */
+  private settleRound(now: number): SessionRound {
+    if (this.isClosed()) {
+      throw new Error(`Session ${this.sessionId} is closed`);
+    }
+
+    const round = this.currentRound();
+    round.result = this.evaluate(round.stage);
+    round.closedAt = new Date(now).toISOString();
+    this.emit('round_closed', this.describe(round, round.result), now, round.result.certificate);
+
+    return round;
+  }
+
+  /**
+   * Issue the final certificate with the session record
+   */
+  private finish(now: number): void {
+    const closed = this.rounds.filter(round => round.result);
+    const passed = closed.filter(round => round.result?.success);
+    const decisive = passed.length > 0 ? passed[passed.length - 1] : closed[closed.length - 1];
+
+    const rounds: SessionRoundRecord[] = closed.map(round => ({
+      round: round.round,
+      keyword: round.keyword,
+      certificateId: (round.result as ConsensusResult).certificate.certificateId,
+      valid: (round.result as ConsensusResult).success,
+      openedAt: round.openedAt,
+      closedAt: round.closedAt as string
+    }));
+
+    this.finalCertificate = this.engine.attachSessionRecord(
+      (decisive.result as ConsensusResult).certificate,
+      { sessionId: this.sessionId, rounds, votes: [...this.history] }
+    );
+    this.emit('closed', this.getProgress(), now, this.finalCertificate);
+  }
+
+  /**
+   * The open round, or the last round once closed
+   */
+  private currentRound(): SessionRound {
+    return this.rounds[this.rounds.length - 1];
+  }
+
+  /**
+   * Certify every participant's current ballot for a stage
+   *
+   * Participants without a ballot are seated as not agreeing.
+   */
+  private evaluate(stage: SessionStage): ConsensusResult {
+    const criteria = Array.from(this.participants.values()).map(participant =>
+      this.ballots.get(participant.id) ?? this.toBallot({ id: participant.id, name: participant.name, agrees: false }, participant)
+    );
+
+    return this.engine.verifyWithSelectedShape(criteria, stage.strength, stage.context, this.description);
+  }
+
+  /**
+   * Summarise a round's result as progress
+   */
+  private describe(round: SessionRound, result: ConsensusResult): SessionProgress {
+    const certificate = result.certificate;
+    const totals = certificate.weightTotals;
+    const reached = result.success;
+    const shortfall = totals
+      ? Math.max(0, totals.required - totals.agreeing)
+      : Math.max(1, certificate.requiredCount - certificate.agreesCount);
+    const remaining = reached ? 0 : shortfall;
+
+    let message: string;
+    if (certificate.selection && !certificate.selection.fits) {
+      message = `cannot reach ${round.keyword}: ${this.participants.size} participants do not fit ${certificate.shape.name}`;
+    } else if (certificate.tally && isVetoed(certificate.shape, certificate.tally)) {
+      message = `vetoed by ${certificate.tally.vetoedBy.join(', ')} for ${round.keyword}`;
+    } else if (reached) {
+      message = `reached ${round.keyword}`;
+    } else if (totals) {
+      message = `needs ${Number(remaining.toFixed(2))} more weight for ${round.keyword}`;
+    } else {
+      message = `needs ${remaining} more for ${round.keyword}`;
+    }
+
+    return {
+      sessionId: this.sessionId,
+      round: round.round,
+      keyword: round.keyword,
+      shapeType: certificate.geometricType,
+      participantCount: this.participants.size,
+      votesCast: this.currentRound() === round ? this.votedThisRound.size : this.countVotes(round.round),
+      agreesCount: certificate.agreesCount,
+      requiredCount: certificate.requiredCount,
+      remaining,
+      reached,
+      message
+    };
+  }
+
+  /**
+   * Participants who cast a ballot in a given round
+   */
+  private countVotes(round: number): number {
+    return new Set(this.history.filter(entry => entry.round === round).map(entry => entry.vertex.id)).size;
+  }
+
+  /**
+   * Participant's ballot with the session's name and weight
+   */
+  private toBallot(vertex: DecisionVertex, participant: SessionParticipant): DecisionVertex {
+    const { weight: _weight, ...ballot } = vertex;
+    return participant.weight === undefined
+      ? { ...ballot, name: participant.name }
+      : { ...ballot, name: participant.name, weight: participant.weight };
+  }
+
+  /**
+   * Notify the progress handler
+   */
+  private emit(type: SessionEventType, progress: SessionProgress, now: number, certificate?: ConsensusCertificate): void {
+    if (!this.progressHandler) {
+      return;
+    }
+
+    try {
+      this.progressHandler({ type, progress, certificate, timestamp: new Date(now).toISOString() });
+    } catch (error) {
+      console.error('Error handling session progress:', error);
+    }
+  }
+}
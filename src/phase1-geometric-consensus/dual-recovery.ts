@@ -3,28 +3,69 @@
  *
  * Implements RFC XXXX Appendix I dual recovery using geometric duality
  * for O(1) recovery vs O(v²) leader election.
+ *
+ * Partition certificates are reconciled before anything is counted: only
+ * certificates for the same proposal are merged, every vertex is counted
+ * once however many sides saw it, and each mismatch is reported.
  */
 
-import { GeometricType, GeometricShape, getGeometricShape, getDual } from './geometric-types.js';
-import { ConsensusCertificate } from './geometric-consensus.js';
-// Removed unused imports: import { PartitionInfo, PartitionCertificate } from './partition-detection.js';
+import { GeometricType, ShapeType, GeometricShape, getGeometricShape, getDual } from './geometric-types.js';
+import { ConsensusCertificate, DecisionVertex } from './geometric-consensus.js';
+import { ownVote, resolveVotes } from './vote-resolution.js';
+import { contentId, generateId } from '../crypto/ids.js';
+
+export type VoteMergePolicy =
+  | 'latest-vote-wins'     // The vote from the most recent certificate counts
+  | 'reject-on-conflict';  // Any vertex with differing votes fails the recovery
+
+export type RecoveryConflictKind =
+  | 'proposal_mismatch'      // Certificate decides another (or an unknown) proposal; excluded
+  | 'provisional_certificate' // Partition without a strict quorum; excluded until healed (see healProvisional)
+  | 'duplicate_vertex'       // Same vertex and vote in several certificates; counted once
+  | 'vote_conflict'          // Same vertex with differing votes in several certificates
+  | 'unknown_participant'    // Vertex outside the expected participants; excluded
+  | 'missing_participant'    // Expected participant in no certificate; counts as not agreeing
+  | 'contradictory_outcome'; // Some partitions reached consensus and others did not
+
+export interface RecoveryConflict {
+  kind: RecoveryConflictKind;
+  vertexId?: string;
+  certificateIds: string[];
+  resolution: string;  // What the merge did about it
+}
+
+export interface RecoveryOptions {
+  proposalId?: string;           // Merge only certificates for this proposal; defaults to the first one named
+  participants?: string[];       // Expected participant set
+  votePolicy?: VoteMergePolicy;  // Defaults to 'reject-on-conflict'
+}
 
 export interface DualRecoveryResult {
   success: boolean;
   recoveredCertificate: ConsensusCertificate;
   recoveryProof: string;
   dualMapping: {
-    original: GeometricType;
-    dual: GeometricType;
+    original: ShapeType;
+    dual: ShapeType;
     thresholdMapping: number;
   };
+  conflicts: RecoveryConflict[];  // Every mismatch found while reconciling, resolved or not
   timestamp: string;
 }
 
+interface Reconciliation {
+  certificates: ConsensusCertificate[];  // Certificates for the recovered proposal
+  vertices: DecisionVertex[];            // Each vertex once, with the vote the policy kept
+  missing: string[];                     // Expected participants without a vote
+  conflicts: RecoveryConflict[];
+  rejected: string[];                    // Vertices whose conflicting votes fail the recovery
+  proposalId?: string;
+}
+
 export interface PartitionRecoveryPlan {
   planId: string;
   partitionCertificates: ConsensusCertificate[];
-  originalType: GeometricType;
+  originalType: ShapeType;
   recoveryStrategy: 'dual' | 'hierarchical' | 'federated';
   estimatedRecoveryTime: number;
   recoverySteps: RecoveryStep[];
@@ -33,7 +74,7 @@ export interface PartitionRecoveryPlan {
 export interface RecoveryStep {
   stepId: string;
   description: string;
-  geometricType: GeometricType;
+  geometricType: ShapeType;
   requiredParticipants: number;
   expectedOutcome: string;
   dependencies: string[];
@@ -53,17 +94,31 @@ export class DualPartitionRecovery {
    *
    * Algorithm:
    * 1. Collect consensus certificates from all partitions
-   * 2. Apply dual mapping to unify threshold semantics
-   * 3. Verify geometric constraints are preserved
-   * 4. Generate unified consensus certificate
+   * 2. Reconcile them: match by proposal, deduplicate vertices, report conflicts
+   * 3. Apply dual mapping to unify threshold semantics
+   * 4. Verify geometric constraints are preserved
+   * 5. Generate unified consensus certificate
    */
   recoverFromPartition(
-    partitionCertificates: ConsensusCertificate[],
-    originalType: GeometricType
+    certificates: ConsensusCertificate[],
+    originalType: ShapeType,
+    options: RecoveryOptions = {}
   ): DualRecoveryResult {
+    let conflicts: RecoveryConflict[] = [];
+
     try {
       // Validate input certificates
-      this.validatePartitionCertificates(partitionCertificates);
+      this.validatePartitionCertificates(certificates);
+
+      const reconciliation = this.reconcileCertificates(certificates, options);
+      conflicts = reconciliation.conflicts;
+      if (reconciliation.rejected.length > 0) {
+        throw new Error(`Conflicting votes under reject-on-conflict: ${reconciliation.rejected.join(', ')}`);
+      }
+      if (reconciliation.certificates.length === 0) {
+        throw new Error(`No partition certificates for proposal ${reconciliation.proposalId}`);
+      }
+      const partitionCertificates = reconciliation.certificates;
 
       // Get original shape and its dual
       const originalShape = getGeometricShape(originalType);
@@ -74,21 +129,22 @@ export class DualPartitionRecovery {
       }
 
       // Apply dual mapping to unify threshold semantics
-      const unifiedConsensus = this.applyDualMapping(partitionCertificates, originalShape, dualShape);
+      const unifiedConsensus = this.applyDualMapping(reconciliation, originalShape, dualShape);
 
       // Generate recovery proof
       const recoveryProof = this.generateRecoveryProof(
         partitionCertificates,
         originalShape,
         dualShape,
-        unifiedConsensus
+        unifiedConsensus,
+        conflicts
       );
 
       // Create recovered certificate
       const recoveredCertificate = this.createRecoveredCertificate(
         unifiedConsensus,
         originalType,
-        partitionCertificates
+        reconciliation
       );
 
       return {
@@ -100,6 +156,7 @@ export class DualPartitionRecovery {
           dual: dualShape.type,
           thresholdMapping: this.calculateThresholdMapping(originalShape, dualShape)
         },
+        conflicts,
         timestamp: new Date().toISOString()
       };
 
@@ -113,6 +170,7 @@ export class DualPartitionRecovery {
           dual: originalType, // Fallback
           thresholdMapping: 0
         },
+        conflicts,
         timestamp: new Date().toISOString()
       };
     }
@@ -126,8 +184,8 @@ export class DualPartitionRecovery {
    */
   mapThresholdViaDual(
     partitionThreshold: number,
-    original: GeometricType,
-    dual: GeometricType
+    original: ShapeType,
+    dual: ShapeType
   ): number {
     const originalShape = getGeometricShape(original);
     const dualShape = getGeometricShape(dual);
@@ -153,7 +211,7 @@ export class DualPartitionRecovery {
    */
   createRecoveryPlan(
     partitionCertificates: ConsensusCertificate[],
-    originalType: GeometricType
+    originalType: ShapeType
   ): PartitionRecoveryPlan {
     const originalShape = getGeometricShape(originalType);
     const dualShape = getDual(originalShape);
@@ -173,7 +231,11 @@ export class DualPartitionRecovery {
     const estimatedRecoveryTime = this.estimateRecoveryTime(recoverySteps);
 
     return {
-      planId: this.generatePlanId(),
+      planId: contentId('recovery-plan', {
+        originalType,
+        recoveryStrategy,
+        certificateIds: partitionCertificates.map(cert => cert.certificateId)
+      }),
       partitionCertificates,
       originalType,
       recoveryStrategy,
@@ -184,42 +246,170 @@ export class DualPartitionRecovery {
 
   /**
    * Validate partition certificates
+   *
+   * Partitions decide on shapes sized to themselves, so their geometric
+   * types may differ, and a partition that failed still contributes its
+   * votes.
    */
   private validatePartitionCertificates(certificates: ConsensusCertificate[]): void {
     if (certificates.length === 0) {
       throw new Error('No partition certificates provided');
     }
+  }
 
-    // Check that all certificates are valid
-    const invalidCertificates = certificates.filter(cert => !cert.valid);
-    if (invalidCertificates.length > 0) {
-      throw new Error(`Invalid certificates found: ${invalidCertificates.length}`);
+  /**
+   * Reconcile partition certificates before counting
+   *
+   * 1. Keep the certificates for one proposal: the requested one, or the
+   *    first one a certificate names; the rest, and provisional
+   *    certificates, are excluded
+   * 2. Merge vertices by ID, in certificate timestamp order; a vertex seen
+   *    twice with the same vote is counted once, and differing votes are
+   *    resolved by the vote policy
+   * 3. Check the merged vertices against the expected participants
+   * 4. Flag partitions that reached opposite outcomes
+   */
+  private reconcileCertificates(certificates: ConsensusCertificate[], options: RecoveryOptions): Reconciliation {
+    const policy = options.votePolicy ?? 'reject-on-conflict';
+    const conflicts: RecoveryConflict[] = [];
+
+    // 1. Match certificates by proposal; provisional ones never decided anything
+    const proposalId = options.proposalId ?? certificates.find(cert => cert.proposalId !== undefined)?.proposalId;
+    const matching = certificates.filter(cert => {
+      if (cert.proposalId !== proposalId) {
+        conflicts.push({
+          kind: 'proposal_mismatch',
+          certificateIds: [cert.certificateId],
+          resolution: `Excluded: decides ${cert.proposalId ?? 'an unnamed proposal'}, not ${proposalId}`
+        });
+        return false;
+      }
+      if (cert.provisional) {
+        conflicts.push({
+          kind: 'provisional_certificate',
+          certificateIds: [cert.certificateId],
+          resolution: `Excluded: provisional (${cert.provisional.reason})`
+        });
+        return false;
+      }
+      return true;
+    });
+
+    // 2. Deduplicate vertices, oldest certificate first (stable for equal timestamps)
+    const ordered = matching
+      .map((cert, index) => ({ cert, index }))
+      .sort((a, b) => Date.parse(a.cert.timestamp) - Date.parse(b.cert.timestamp) || a.index - b.index)
+      .map(entry => entry.cert);
+    const merged = new Map<string, { vertex: DecisionVertex; certificateId: string }>();
+    const rejected: string[] = [];
+
+    ordered.forEach(cert => {
+      cert.vertices.forEach(vertex => {
+        const seen = merged.get(vertex.id);
+        if (!seen) {
+          merged.set(vertex.id, { vertex, certificateId: cert.certificateId });
+          return;
+        }
+
+        const certificateIds = [seen.certificateId, cert.certificateId];
+        if (!this.isDifferentVote(seen.vertex, vertex)) {
+          conflicts.push({ kind: 'duplicate_vertex', vertexId: vertex.id, certificateIds, resolution: 'Counted once' });
+          return;
+        }
+
+        if (policy === 'latest-vote-wins') {
+          merged.set(vertex.id, { vertex, certificateId: cert.certificateId });
+          conflicts.push({
+            kind: 'vote_conflict',
+            vertexId: vertex.id,
+            certificateIds,
+            resolution: `Latest vote wins: ${ownVote(vertex)} from ${cert.certificateId}`
+          });
+        } else {
+          if (!rejected.includes(vertex.id)) {
+            rejected.push(vertex.id);
+          }
+          conflicts.push({ kind: 'vote_conflict', vertexId: vertex.id, certificateIds, resolution: 'Recovery rejected' });
+        }
+      });
+    });
+
+    // 3. Check against the expected participants
+    let entries = Array.from(merged.values());
+    let missing: string[] = [];
+    if (options.participants) {
+      const expected = new Set(options.participants);
+      entries.filter(entry => !expected.has(entry.vertex.id)).forEach(entry => {
+        conflicts.push({
+          kind: 'unknown_participant',
+          vertexId: entry.vertex.id,
+          certificateIds: [entry.certificateId],
+          resolution: 'Excluded'
+        });
+      });
+      entries = entries.filter(entry => expected.has(entry.vertex.id));
+      missing = options.participants.filter(id => !merged.has(id));
+      missing.forEach(id => {
+        conflicts.push({ kind: 'missing_participant', vertexId: id, certificateIds: [], resolution: 'Counted as not agreeing' });
+      });
     }
 
-    // Check that all certificates are from the same original geometric type
-    const firstType = certificates[0].geometricType;
-    const inconsistentTypes = certificates.filter(cert => cert.geometricType !== firstType);
-    if (inconsistentTypes.length > 0) {
-      throw new Error('Inconsistent geometric types in partition certificates');
+    // 4. Opposite outcomes across partitions
+    const outcomes = new Set(matching.map(cert => cert.valid));
+    if (outcomes.size > 1) {
+      conflicts.push({
+        kind: 'contradictory_outcome',
+        certificateIds: matching.map(cert => cert.certificateId),
+        resolution: `${matching.filter(cert => cert.valid).length} of ${matching.length} partitions reached consensus; the merged votes decide`
+      });
     }
+
+    return {
+      certificates: matching,
+      vertices: entries.map(entry => entry.vertex),
+      missing,
+      conflicts,
+      rejected,
+      proposalId
+    };
+  }
+
+  /**
+   * Whether two ballots for the same vertex differ
+   */
+  private isDifferentVote(a: DecisionVertex, b: DecisionVertex): boolean {
+    return ownVote(a) !== ownVote(b) ||
+           a.delegateTo !== b.delegateTo ||
+           (a.weight ?? 1) !== (b.weight ?? 1);
   }
 
   /**
    * Apply dual mapping to unify threshold semantics
    */
   private applyDualMapping(
-    partitionCertificates: ConsensusCertificate[],
+    reconciliation: Reconciliation,
     originalShape: GeometricShape,
     dualShape: GeometricShape
   ): {
     totalAgrees: number;
     totalVertices: number;
+    requiredAgreement: number;
     unifiedThreshold: number;
+    weighted: boolean;
     valid: boolean;
   } {
-    // Sum up agreements and vertices across all partitions
-    const totalAgrees = partitionCertificates.reduce((sum, cert) => sum + cert.agreesCount, 0);
-    const totalVertices = partitionCertificates.reduce((sum, cert) => sum + cert.vertices.length, 0);
+    // Weighted partitions are merged by weight: unset weights and missing
+    // participants weigh 1, as in weighted certificates
+    const weighted = reconciliation.certificates.some(cert => cert.weightTotals !== undefined);
+    const weightOf = (vertex: DecisionVertex) => (weighted ? vertex.weight ?? 1 : 1);
+
+    // Count the reconciled vertices once each; missing participants do not agree
+    const { values } = resolveVotes(reconciliation.vertices);
+    const totalAgrees = reconciliation.vertices
+      .filter((_, i) => values[i] === 'agree')
+      .reduce((sum, vertex) => sum + weightOf(vertex), 0);
+    const totalVertices = reconciliation.vertices.reduce((sum, vertex) => sum + weightOf(vertex), 0) +
+      reconciliation.missing.length;
 
     // Calculate unified threshold using dual mapping
     const unifiedThreshold = this.mapThresholdViaDual(
@@ -229,13 +419,15 @@ export class DualPartitionRecovery {
     );
 
     // Verify unified consensus
-    const requiredAgreement = Math.ceil(totalVertices * unifiedThreshold);
+    const requiredAgreement = weighted ? totalVertices * unifiedThreshold : Math.ceil(totalVertices * unifiedThreshold);
     const valid = totalAgrees >= requiredAgreement;
 
     return {
       totalAgrees,
       totalVertices,
+      requiredAgreement,
       unifiedThreshold,
+      weighted,
       valid
     };
   }
@@ -260,12 +452,21 @@ export class DualPartitionRecovery {
     partitionCertificates: ConsensusCertificate[],
     originalShape: GeometricShape,
     dualShape: GeometricShape,
-    unifiedConsensus: any
+    unifiedConsensus: any,
+    conflicts: RecoveryConflict[]
   ): string {
     const partitionCount = partitionCertificates.length;
+    const conflictLines = conflicts.length === 0
+      ? '- None'
+      : conflicts.map(conflict =>
+        `- ${conflict.kind}${conflict.vertexId ? ` (${conflict.vertexId})` : ''}: ${conflict.resolution}`
+      ).join('\n');
     const totalAgrees = unifiedConsensus.totalAgrees;
     const totalVertices = unifiedConsensus.totalVertices;
     const unifiedThreshold = unifiedConsensus.unifiedThreshold;
+    const requirementLines = unifiedConsensus.weighted
+      ? `- Total Vote Weight: ${totalVertices}\n- Required Weight: ${totalVertices} × ${unifiedThreshold} = ${unifiedConsensus.requiredAgreement}`
+      : `- Required Agreement: ⌈${totalVertices} × ${unifiedThreshold}⌉ = ${unifiedConsensus.requiredAgreement}`;
 
     return `
 Dual Recovery Proof:
@@ -274,7 +475,7 @@ Given:
 - Original Geometric Type: ${originalShape.name} (${originalShape.type})
 - Dual Geometric Type: ${dualShape.name} (${dualShape.type})
 - Partition Count: ${partitionCount}
-- Total Agreements: ${totalAgrees}/${totalVertices}
+- Total Agreements: ${totalAgrees}/${totalVertices}${unifiedConsensus.weighted ? ' (by vote weight)' : ''}
 - Unified Threshold: ${(unifiedThreshold * 100).toFixed(1)}%
 
 Dual Mapping:
@@ -282,14 +483,18 @@ Dual Mapping:
 2. Dual: ${dualShape.vertices} vertices, ${dualShape.faces} faces, threshold ${(dualShape.threshold * 100).toFixed(1)}%
 3. Face-Vertex Ratio: ${dualShape.vertices}/${originalShape.faces} = ${(dualShape.vertices / originalShape.faces).toFixed(3)}
 
+Reconciliation:
+${conflictLines}
+
 Recovery Process:
 1. Collect consensus from ${partitionCount} partitions
-2. Apply dual mapping to unify threshold semantics
-3. Verify geometric constraints are preserved
-4. Generate unified consensus certificate
+2. Reconcile proposals and vertices, counting each vertex once
+3. Apply dual mapping to unify threshold semantics
+4. Verify geometric constraints are preserved
+5. Generate unified consensus certificate
 
 Mathematical Verification:
-- Required Agreement: ⌈${totalVertices} × ${unifiedThreshold}⌉ = ${Math.ceil(totalVertices * unifiedThreshold)}
+${requirementLines}
 - Actual Agreement: ${totalAgrees}
 - Consensus: ${unifiedConsensus.valid ? 'ACHIEVED' : 'FAILED'}
 
@@ -307,21 +512,22 @@ This recovery follows RFC XXXX Appendix I dual recovery specifications.
    */
   private createRecoveredCertificate(
     unifiedConsensus: any,
-    originalType: GeometricType,
-    partitionCertificates: ConsensusCertificate[]
+    originalType: ShapeType,
+    reconciliation: Reconciliation
   ): ConsensusCertificate {
     const originalShape = getGeometricShape(originalType);
+    const partitionCertificates = reconciliation.certificates;
 
-    // Combine all vertices from partition certificates
-    const allVertices = partitionCertificates.flatMap(cert => cert.vertices);
-
-    return {
-      certificateId: this.generateCertificateId(),
+    const certificate: ConsensusCertificate = {
+      certificateId: contentId('recovery-cert', {
+        originalType,
+        certificateIds: partitionCertificates.map(cert => cert.certificateId)
+      }),
       geometricType: originalType,
       shape: originalShape,
-      vertices: allVertices,
+      vertices: reconciliation.vertices,
       agreesCount: unifiedConsensus.totalAgrees,
-      requiredCount: Math.ceil(unifiedConsensus.totalVertices * unifiedConsensus.unifiedThreshold),
+      requiredCount: unifiedConsensus.requiredAgreement,
       thresholdPercentage: unifiedConsensus.unifiedThreshold,
       valid: unifiedConsensus.valid,
       proof: `Recovered from ${partitionCertificates.length} partitions using dual mapping`,
@@ -336,16 +542,29 @@ This recovery follows RFC XXXX Appendix I dual recovery specifications.
         partitionCount: 1
       }
     };
+
+    if (reconciliation.proposalId !== undefined) {
+      certificate.proposalId = reconciliation.proposalId;
+    }
+    if (unifiedConsensus.weighted) {
+      certificate.weightTotals = {
+        agreeing: unifiedConsensus.totalAgrees,
+        total: unifiedConsensus.totalVertices,
+        required: unifiedConsensus.requiredAgreement
+      };
+    }
+
+    return certificate;
   }
 
   /**
    * Create error certificate
    */
-  private createErrorCertificate(originalType: GeometricType, error: Error): ConsensusCertificate {
+  private createErrorCertificate(originalType: ShapeType, error: Error): ConsensusCertificate {
     const originalShape = getGeometricShape(originalType);
 
     return {
-      certificateId: this.generateCertificateId(),
+      certificateId: generateId('recovery-cert'),
       geometricType: originalType,
       shape: originalShape,
       vertices: [],
@@ -502,24 +721,6 @@ This recovery follows RFC XXXX Appendix I dual recovery specifications.
     return Math.ceil(steps.length * baseTimePerStep * complexityMultiplier);
   }
 
-  /**
-   * Generate unique certificate ID
-   */
-  private generateCertificateId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `recovery-cert-${timestamp}-${random}`;
-  }
-
-  /**
-   * Generate unique plan ID
-   */
-  private generatePlanId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `recovery-plan-${timestamp}-${random}`;
-  }
-
   /**
    * Validate recovery result
    */
@@ -5,20 +5,61 @@
  * Uses Platonic/Archimedean solids for consensus thresholds.
  */
 
-import { GeometricType, GeometricShape, getGeometricShape, calculateRequiredAgreement, isValidForConsensus, getConsensusKeyword } from './geometric-types.js';
-import { BettiCalculator, Vertex, Edge, BettiNumbers } from './betti-numbers.js';
+import {
+  GeometricType,
+  ShapeType,
+  GeometricShape,
+  WeightTotals,
+  getGeometricShape,
+  getConsensusKeyword
+} from './geometric-types.js';
+import { BettiCalculator, Vertex, Edge, BettiNumbers, SimplicialComplex } from './betti-numbers.js';
+import { ShapeSelector, ShapeSelection, ConsensusStrength } from './shape-selection.js';
+import { PartitionDetector, ReachabilityGraph } from './partition-detection.js';
+import { AbstentionRule, VoteTally, VoteValue, evaluateVotes, isVetoed } from './vote-resolution.js';
+import { CertificateSignature, hashCertificate, sealCertificate, signCertificate } from './certificate-integrity.js';
+import { SigningKeyPair } from '../crypto/signatures.js';
+import { KeyRegistry } from '../crypto/key-registry.js';
+import { contentId } from '../crypto/ids.js';
+import { canonicalize } from '../crypto/canonical.js';
 
 export interface DecisionVertex {
   id: string;
   name: string;
   agrees: boolean;
   justification?: string;
-  weight?: number;  // Optional weight for weighted consensus
+  weight?: number;       // Optional weight for weighted consensus
+  vote?: VoteValue;      // agree/disagree/abstain/veto; overrides agrees when set
+  delegateTo?: string;   // Vertex ID whose resolved vote this vertex adopts
+}
+
+export interface VoteHistoryEntry {
+  round: number;           // Session round the ballot was cast in, from 1
+  keyword: string;         // Keyword the round was deciding, e.g. SHOULD_LOCAL
+  vertex: DecisionVertex;  // The ballot as recorded
+  revision: boolean;       // Replaced the voter's earlier ballot in the same round
+  recordedAt: string;
+}
+
+export interface SessionRoundRecord {
+  round: number;
+  keyword: string;
+  certificateId: string;   // Certificate the round closed with
+  valid: boolean;
+  openedAt: string;
+  closedAt: string;
+}
+
+export interface SessionRecord {
+  sessionId: string;
+  rounds: SessionRoundRecord[];  // Closed rounds, in order
+  votes: VoteHistoryEntry[];     // Every ballot cast, revisions included
 }
 
 export interface ConsensusCertificate {
   certificateId: string;
-  geometricType: GeometricType;
+  proposalId?: string;                  // Proposal the decision is about, when bound to one
+  geometricType: ShapeType;
   shape: GeometricShape;
   vertices: DecisionVertex[];
   agreesCount: number;
@@ -27,17 +68,75 @@ export interface ConsensusCertificate {
   valid: boolean;
   proof: string;
   timestamp: string;
-  bettiNumbers?: BettiNumbers;
-  partitionInfo?: {
+  bettiNumbers?: BettiNumbers;         // Opinion complex: regions of same-vote vertices on the shape
+  partitionInfo?: {                    // Reachability between participants, independent of their votes
     isPartitioned: boolean;
     partitionCount: number;
+    rule?: PartitionDecisionRule;      // Set when each partition was verified on its own
+    stands?: boolean;                  // Whether the partition rule let the decision stand; valid is false otherwise
   };
+  excludedVertices?: string[];          // Vertex IDs dropped by the key registry
+  selection?: ShapeSelection;           // Why this shape, and which participant sits on which vertex
+  weightTotals?: WeightTotals;          // Set in weighted mode, where the threshold applies to weight
+  tally?: VoteTally;                    // Resolved votes, abstention rule, vetoes and delegations (when used)
+  session?: SessionRecord;              // Rounds and vote history when issued by a ConsensusSession
+  provisional?: ProvisionalStatus;      // Set when issued by a partition without a strict quorum; not a final decision
+  supersedes?: string;                  // Provisional certificate this healed decision promotes or rolls back
+  contentHash?: string;                 // SHA-256 over the canonical certificate
+  signatures?: CertificateSignature[];  // Signatures over contentHash
 }
 
 export interface ConsensusResult {
   certificate: ConsensusCertificate;
   success: boolean;
   message: string;
+  partitioned?: PartitionedConsensus;  // Set when the network was partitioned and each side was verified
+}
+
+export type PartitionDecisionRule =
+  | 'every-partition'  // Every partition must reach consensus on its own shape
+  | 'strict-quorum';   // Only a partition holding more than half of the participants decides; the rest are provisional
+
+export interface ProvisionalStatus {
+  reason: string;
+  originalType: ShapeType;         // Shape the full participant set decides on once healed
+  originalParticipants: string[];  // Participant set the quorum is measured against
+  quorum: number;                  // Members a partition needs to decide
+  members: number;                 // Members this partition held
+}
+
+export interface HealingOutcome {
+  action: 'promoted' | 'rolled_back';
+  provisional: ConsensusCertificate;
+  result: ConsensusResult;  // Decision of the healed network, superseding the provisional certificate
+  reason: string;
+}
+
+export interface PartitionVerdict {
+  vertexIds: string[];       // Participants in this partition, in input order
+  decomposedType: ShapeType;
+  result: ConsensusResult;   // Sub-certificate for this partition
+}
+
+export interface PartitionedConsensus {
+  partitions: PartitionVerdict[];
+  rule: PartitionDecisionRule;
+  stands: boolean;           // Whether the overall decision stands under the rule
+  explanation: string;
+}
+
+export interface CertificateIssuer {
+  id: string;
+  signingKeys: SigningKeyPair;
+}
+
+export interface GeometricConsensusOptions {
+  issuer?: CertificateIssuer;    // Signs every certificate when set
+  keyRegistry?: KeyRegistry;     // Drops vertices without an active key when set
+  weighted?: boolean;            // Apply thresholds to total vote weight instead of head count
+  abstentions?: AbstentionRule;  // Default rule for abstentions; 'count' keeps them in the denominator
+  reachability?: ReachabilityGraph;  // Links between participants; without it no partition is reported
+  partitionRule?: PartitionDecisionRule;  // How partitioned verification decides; defaults to 'every-partition'
 }
 
 /**
@@ -47,9 +146,35 @@ export interface ConsensusResult {
  */
 export class GeometricConsensus {
   private bettiCalculator: BettiCalculator;
-
-  constructor() {
+  private shapeSelector: ShapeSelector;
+  private issuer?: CertificateIssuer;
+  private keyRegistry?: KeyRegistry;
+  private weighted: boolean;
+  private abstentions: AbstentionRule;
+  private partitionDetector: PartitionDetector;
+  private reachability?: ReachabilityGraph;
+  private partitionRule: PartitionDecisionRule;
+
+  constructor(options: GeometricConsensusOptions = {}) {
     this.bettiCalculator = new BettiCalculator();
+    this.shapeSelector = new ShapeSelector();
+    this.issuer = options.issuer;
+    this.keyRegistry = options.keyRegistry;
+    this.weighted = options.weighted ?? false;
+    this.abstentions = options.abstentions ?? 'count';
+    this.partitionDetector = new PartitionDetector();
+    this.reachability = options.reachability;
+    this.partitionRule = options.partitionRule ?? 'every-partition';
+  }
+
+  /**
+   * Replace the reachability graph used for partition detection
+   *
+   * Pass the latest heartbeat topology before verifying; undefined assumes
+   * every participant is reachable.
+   */
+  setReachability(topology?: ReachabilityGraph): void {
+    this.reachability = topology;
   }
 
   /**
@@ -153,76 +278,239 @@ export class GeometricConsensus {
 
   /**
    * Generic consensus verification with custom geometric type
+   *
+   * Votes that outnumber the shape's vertices are rejected; fewer votes
+   * leave vertices empty, which count as not agreeing. The abstention rule
+   * and reachability graph default to the engine's.
    */
   verifyConsensus(
     criteria: DecisionVertex[],
-    geometricType: GeometricType,
-    description: string
+    geometricType: ShapeType,
+    description: string,
+    abstentions: AbstentionRule = this.abstentions,
+    reachability: ReachabilityGraph | undefined = this.reachability
   ): ConsensusResult {
     try {
       const shape = getGeometricShape(geometricType);
-      const certificate = this.createConsensusCertificate(criteria, shape, description);
-
-      const success = certificate.valid;
-      const message = success
-        ? `Consensus achieved: ${certificate.agreesCount}/${criteria.length} agree (${(certificate.thresholdPercentage * 100).toFixed(1)}%)`
-        : `Consensus failed: ${certificate.agreesCount}/${criteria.length} agree, need ${certificate.requiredCount} (${(certificate.thresholdPercentage * 100).toFixed(1)}%)`;
+      const { registered, excluded } = this.filterRegisteredVertices(criteria);
+      const selection = this.shapeSelector.fit(registered.map(v => v.id), shape);
 
+      return this.verifyOnShape(registered, excluded, shape, selection, description, abstentions, reachability);
+    } catch (error) {
       return {
-        certificate,
-        success,
-        message
+        certificate: this.createErrorCertificate(criteria, geometricType, error as Error),
+        success: false,
+        message: `Consensus verification failed: ${(error as Error).message}`
       };
+    }
+  }
+
+  /**
+   * Consensus verification on a shape chosen for the participants
+   *
+   * The shape is the smallest one with the requested keyword strength and
+   * context that seats every registered participant (see ShapeSelector).
+   */
+  verifyWithSelectedShape(
+    criteria: DecisionVertex[],
+    strength: ConsensusStrength,
+    context: GeometricShape['context'],
+    description: string = `${strength} (${context}) - Selected shape`
+  ): ConsensusResult {
+    const { registered, excluded } = this.filterRegisteredVertices(criteria);
+    const selection = this.shapeSelector.select(registered.map(v => v.id), strength, context);
+
+    try {
+      const shape = getGeometricShape(selection.shapeType);
+      return this.verifyOnShape(registered, excluded, shape, selection, description, this.abstentions, this.reachability);
     } catch (error) {
       return {
-        certificate: this.createErrorCertificate(criteria, geometricType, error as Error),
+        certificate: this.createErrorCertificate(criteria, selection.shapeType, error as Error),
         success: false,
         message: `Consensus verification failed: ${(error as Error).message}`
       };
     }
   }
 
+  /**
+   * Attach a session's rounds and vote history to a certificate
+   *
+   * The decision itself, and so the certificate ID, is unchanged; the
+   * certificate is sealed and signed again to cover the record.
+   */
+  attachSessionRecord(certificate: ConsensusCertificate, session: SessionRecord): ConsensusCertificate {
+    return this.finalizeCertificate({ ...certificate, session });
+  }
+
+  /**
+   * Bind a certificate to the proposal it decides
+   *
+   * Partition recovery only merges certificates for the same proposal. The
+   * certificate is sealed and signed again to cover the binding.
+   */
+  attachProposal(certificate: ConsensusCertificate, proposalId: string): ConsensusCertificate {
+    return this.finalizeCertificate({ ...certificate, proposalId });
+  }
+
+  /**
+   * Certify registered votes on a shape and summarise the outcome
+   */
+  private verifyOnShape(
+    registered: DecisionVertex[],
+    excluded: string[],
+    shape: GeometricShape,
+    selection: ShapeSelection,
+    description: string,
+    abstentions: AbstentionRule,
+    reachability?: ReachabilityGraph
+  ): ConsensusResult {
+    const certificate = this.createConsensusCertificate(
+      registered, shape, description, excluded, selection, abstentions, reachability
+    );
+
+    const success = certificate.valid;
+    const exclusionNote = excluded.length > 0 ? `, ${excluded.length} unregistered vote(s) dropped` : '';
+    const paddingNote = selection.emptyVertices > 0 ? `, ${selection.emptyVertices} empty vertices` : '';
+    const totals = certificate.weightTotals;
+    let message: string;
+    if (!selection.fits) {
+      message = `Consensus rejected: ${registered.length} votes do not fit ${shape.name} (${shape.vertices} vertices)${exclusionNote}`;
+    } else if (certificate.tally && isVetoed(shape, certificate.tally)) {
+      message = `Consensus vetoed by ${certificate.tally.vetoedBy.join(', ')} (${getConsensusKeyword(shape)})${exclusionNote}`;
+    } else if (totals) {
+      message = success
+        ? `Consensus achieved: weight ${totals.agreeing}/${totals.total} agrees (${(certificate.thresholdPercentage * 100).toFixed(1)}%)${paddingNote}${exclusionNote}`
+        : `Consensus failed: weight ${totals.agreeing}/${totals.total} agrees, need ${totals.required} (${(certificate.thresholdPercentage * 100).toFixed(1)}%)${paddingNote}${exclusionNote}`;
+    } else if (success) {
+      message = `Consensus achieved: ${certificate.agreesCount}/${registered.length} agree (${(certificate.thresholdPercentage * 100).toFixed(1)}%)${paddingNote}${exclusionNote}`;
+    } else {
+      message = `Consensus failed: ${certificate.agreesCount}/${registered.length} agree, need ${certificate.requiredCount} (${(certificate.thresholdPercentage * 100).toFixed(1)}%)${paddingNote}${exclusionNote}`;
+    }
+
+    return {
+      certificate,
+      success,
+      message
+    };
+  }
+
+  /**
+   * Split criteria into vertices with an active registry key and the rest
+   *
+   * Without a key registry every vertex is accepted.
+   */
+  private filterRegisteredVertices(criteria: DecisionVertex[]): {
+    registered: DecisionVertex[];
+    excluded: string[];
+  } {
+    if (!this.keyRegistry) {
+      return { registered: criteria, excluded: [] };
+    }
+
+    const registry = this.keyRegistry;
+    const registered = criteria.filter(v => registry.getActiveKey(v.id) !== undefined);
+    const excluded = criteria.filter(v => registry.getActiveKey(v.id) === undefined).map(v => v.id);
+
+    return { registered, excluded };
+  }
+
   /**
    * Create consensus certificate with mathematical proof
    */
   private createConsensusCertificate(
     criteria: DecisionVertex[],
     shape: GeometricShape,
-    _description: string
+    _description: string,
+    excludedVertices: string[],
+    selection: ShapeSelection,
+    abstentions: AbstentionRule,
+    reachability?: ReachabilityGraph
   ): ConsensusCertificate {
-    const agreesCount = criteria.filter(v => v.agrees).length;
-    const requiredCount = calculateRequiredAgreement(shape);
+    const evaluation = evaluateVotes(shape, criteria, { abstentions, weighted: this.weighted });
+    const { agreesCount, requiredCount, weightTotals, valid } = evaluation;
     const thresholdPercentage = shape.threshold;
-    const valid = isValidForConsensus(shape, agreesCount);
 
-    // Calculate Betti numbers for partition detection
-    const vertices = this.convertToVertices(criteria);
-    const edges = this.buildConsensusEdges(criteria);
-    const bettiNumbers = this.bettiCalculator.calculateBettiNumbers(vertices, edges);
+    // Plain yes/no votes under the default rule need no tally
+    const usesVoteRules = abstentions !== 'count' ||
+      criteria.some(v => v.vote !== undefined || v.delegateTo !== undefined);
+    const tally = usesVoteRules ? evaluation.tally : undefined;
 
-    // Check for partitions
-    const isPartitioned = this.bettiCalculator.detectPartition(bettiNumbers);
-    const partitionCount = this.bettiCalculator.countPartitions(bettiNumbers);
+    // Weighted mode records every vertex's weight, including the default
+    const vertices = this.weighted ? criteria.map(v => ({ ...v, weight: v.weight ?? 1 })) : criteria;
+
+    // Betti numbers of the opinion complex
+    const resolved = new Map(criteria.map((v, i) => [v.id, evaluation.values[i]]));
+    const bettiNumbers = this.bettiCalculator.calculateComplexBettiNumbers(
+      this.buildConsensusComplex(criteria, shape, selection, resolved)
+    );
+
+    // Partitions come from reachability alone, never from the votes
+    const partitionCount = this.partitionDetector.findReachableComponents(criteria.map(v => v.id), reachability).length;
+    const isPartitioned = partitionCount > 1;
 
     const certificate: ConsensusCertificate = {
-      certificateId: this.generateCertificateId(),
+      // Content-addressed: the same decision always yields the same ID
+      certificateId: contentId('cert', {
+        geometricType: shape.type,
+        vertices,
+        excludedVertices,
+        agreesCount,
+        requiredCount,
+        weightTotals,
+        tally,
+        valid
+      }),
       geometricType: shape.type,
       shape,
-      vertices: criteria,
+      vertices,
       agreesCount,
       requiredCount,
       thresholdPercentage,
       valid,
-      proof: this.generateMathematicalProof(shape, agreesCount, requiredCount, valid),
+      proof: this.generateMathematicalProof(shape, agreesCount, requiredCount, valid, selection, evaluation.tally, weightTotals),
       timestamp: new Date().toISOString(),
       bettiNumbers,
       partitionInfo: {
         isPartitioned,
         partitionCount
-      }
+      },
+      selection
     };
 
-    return certificate;
+    if (excludedVertices.length > 0) {
+      certificate.excludedVertices = excludedVertices;
+    }
+    if (weightTotals) {
+      certificate.weightTotals = weightTotals;
+    }
+    if (tally) {
+      certificate.tally = tally;
+    }
+
+    return this.finalizeCertificate(certificate);
+  }
+
+  /**
+   * Seal a certificate and sign it as the issuer, if one is configured
+   *
+   * Any previous seal and signatures are discarded, since they no longer
+   * cover the certificate contents.
+   */
+  private finalizeCertificate(certificate: ConsensusCertificate): ConsensusCertificate {
+    const { signatures: _signatures, ...unsigned } = certificate;
+    const sealed = sealCertificate(unsigned);
+
+    if (!this.issuer) {
+      return sealed;
+    }
+
+    return signCertificate(
+      sealed,
+      this.issuer.id,
+      'issuer',
+      this.issuer.signingKeys.publicKey,
+      this.issuer.signingKeys.privateKey
+    );
   }
 
   /**
@@ -236,12 +524,49 @@ export class GeometricConsensus {
     }));
   }
 
+  /**
+   * Build the consensus complex on the shape's own geometry
+   *
+   * Each vertex takes the place the selection assigned it on the polytope
+   * and only the edges, faces and cells whose vertices all resolved to the
+   * same vote are kept, so β₀ counts the regions of agreement, dissent,
+   * abstention and veto on the shape. Empty vertices are left out. With more
+   * vertices than the shape has, same-vote vertices are connected directly.
+   */
+  private buildConsensusComplex(
+    criteria: DecisionVertex[],
+    shape: GeometricShape,
+    selection: ShapeSelection,
+    resolved: Map<string, VoteValue>
+  ): SimplicialComplex {
+    if (!selection.fits) {
+      return { vertices: this.convertToVertices(criteria), edges: this.buildConsensusEdges(criteria, resolved), faces: [] };
+    }
+
+    const byId = new Map(criteria.map(v => [v.id, v]));
+    const placed = selection.occupants
+      .filter((id): id is string => id !== null)
+      .map(id => byId.get(id) as DecisionVertex);
+
+    const vertices = this.convertToVertices(placed);
+    const complex = this.bettiCalculator.buildSimplicialComplex(shape.type, vertices);
+    const sameVote = (simplex: number[]) =>
+      simplex.every(i => resolved.get(placed[i].id) === resolved.get(placed[simplex[0]].id));
+
+    return {
+      vertices,
+      edges: complex.edges.filter(edge => resolved.get(edge.from) === resolved.get(edge.to)),
+      faces: complex.faces.filter(sameVote),
+      tetrahedra: (complex.tetrahedra || []).filter(sameVote)
+    };
+  }
+
   /**
    * Build consensus edges based on agreement relationships
    *
    * For consensus, we connect vertices that agree with each other
    */
-  private buildConsensusEdges(criteria: DecisionVertex[]): Edge[] {
+  private buildConsensusEdges(criteria: DecisionVertex[], resolved: Map<string, VoteValue>): Edge[] {
     const edges: Edge[] = [];
 
     for (let i = 0; i < criteria.length; i++) {
@@ -249,8 +574,8 @@ export class GeometricConsensus {
         const v1 = criteria[i];
         const v2 = criteria[j];
 
-        // Connect vertices that agree (both agree or both disagree)
-        if (v1.agrees === v2.agrees) {
+        // Connect vertices that resolved to the same vote
+        if (resolved.get(v1.id) === resolved.get(v2.id)) {
           edges.push({
             id: `consensus-edge-${i}-${j}`,
             from: v1.id,
@@ -270,11 +595,26 @@ export class GeometricConsensus {
     shape: GeometricShape,
     agreesCount: number,
     requiredCount: number,
-    valid: boolean
+    valid: boolean,
+    selection: ShapeSelection,
+    tally: VoteTally,
+    weightTotals?: WeightTotals
   ): string {
     const keyword = getConsensusKeyword(shape);
     const threshold = (shape.threshold * 100).toFixed(1);
 
+    const extraChecks: string[] = [];
+    if (weightTotals) {
+      extraChecks.push(`Weighted Check: ${weightTotals.agreeing} ≥ ${weightTotals.total} × ${shape.threshold} = ${weightTotals.agreeing} ≥ ${weightTotals.required} = ${weightTotals.agreeing >= weightTotals.required}`);
+    }
+    if (tally.veto > 0) {
+      extraChecks.push(isVetoed(shape, tally)
+        ? `Veto Check: vetoed by ${tally.vetoedBy.join(', ')}, which blocks ${keyword}`
+        : `Veto Check: ${tally.veto} veto(es) count as votes against under ${keyword}`);
+    }
+    const additionalChecks = extraChecks.map((check, i) => `\n${i + 5}. ${check}`).join('');
+    const delegationCount = Object.keys(tally.delegations).length;
+
     const proof = `
 Mathematical Proof for ${keyword} Consensus:
 
@@ -284,11 +624,17 @@ Given:
 - Threshold: ${threshold}%
 - Required Agreement: ${requiredCount}/${shape.vertices}
 - Actual Agreement: ${agreesCount}/${shape.vertices}
+- Participants: ${selection.participantCount} (${selection.emptyVertices} empty vertices)
+- Votes: ${tally.agree} agree, ${tally.disagree} disagree, ${tally.abstain} abstain, ${tally.veto} veto (abstentions ${tally.abstentions === 'exclude' ? 'excluded from' : 'counted in'} the denominator)
+- Delegations: ${delegationCount} resolved, ${tally.unresolved.length} unresolved (abstaining)
 
 Verification:
-1. Threshold Check: ${agreesCount} ≥ ${requiredCount} = ${agreesCount >= requiredCount}
-2. Geometric Constraint: ${shape.name} requires ${threshold}% agreement
-3. Algebraic Verification: (${agreesCount}/${shape.vertices}) ≥ ${shape.threshold} = ${(agreesCount / shape.vertices).toFixed(3)} ≥ ${shape.threshold} = ${valid}
+1. Vertex Check: ${selection.participantCount} ≤ ${shape.vertices} = ${selection.fits}
+2. Threshold Check: ${agreesCount} ≥ ${requiredCount} = ${agreesCount >= requiredCount}
+3. Geometric Constraint: ${shape.name} requires ${threshold}% agreement
+4. Algebraic Verification: (${agreesCount}/${shape.vertices}) ≥ ${shape.threshold} = ${(agreesCount / shape.vertices).toFixed(3)} ≥ ${shape.threshold} = ${agreesCount / shape.vertices >= shape.threshold}${additionalChecks}
+
+Shape Selection: ${selection.reason}
 
 Conclusion: ${valid ? 'CONSENSUS ACHIEVED' : 'CONSENSUS FAILED'}
 
@@ -296,7 +642,7 @@ Geometric Properties:
 - Schläfli Symbol: ${shape.schlaefli || 'N/A'}
 - Dimension: ${shape.dimension}D
 - Context: ${shape.context}
-- Dual: ${shape.dual || 'Self-dual'}
+- Dual: ${shape.isSelfDual ? 'Self-dual' : shape.dual || 'Not in registry'}
 
 This proof is mathematically verifiable and follows RFC XXXX specifications.
     `.trim();
@@ -304,25 +650,16 @@ This proof is mathematically verifiable and follows RFC XXXX specifications.
     return proof;
   }
 
-  /**
-   * Generate unique certificate ID
-   */
-  private generateCertificateId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `cert-${timestamp}-${random}`;
-  }
-
   /**
    * Create error certificate for failed consensus
    */
   private createErrorCertificate(
     criteria: DecisionVertex[],
-    geometricType: GeometricType,
+    geometricType: ShapeType,
     error: Error
   ): ConsensusCertificate {
-    return {
-      certificateId: this.generateCertificateId(),
+    return this.finalizeCertificate({
+      certificateId: contentId('cert', { geometricType, vertices: criteria, error: error.message }),
       geometricType,
       shape: getGeometricShape(geometricType),
       vertices: criteria,
@@ -332,21 +669,39 @@ This proof is mathematically verifiable and follows RFC XXXX specifications.
       valid: false,
       proof: `Error in consensus verification: ${error.message}`,
       timestamp: new Date().toISOString()
-    };
+    });
   }
 
   /**
    * Verify consensus with partition awareness
+   *
+   * Asynchronous form of verifyPartitionAware.
    */
   async verifyConsensusWithPartitionDetection(
     criteria: DecisionVertex[],
-    expectedType: GeometricType
+    expectedType: ShapeType,
+    reachability: ReachabilityGraph | undefined = this.reachability
   ): Promise<ConsensusResult> {
-    const result = this.verifyConsensus(criteria, expectedType, 'Partition-aware consensus');
+    return this.verifyPartitionAware(criteria, expectedType, reachability);
+  }
+
+  /**
+   * Verify consensus, then per partition if the network is split
+   *
+   * Partitions are read from the given reachability graph, or the engine's.
+   * On a partitioned network each partition is verified on its decomposed
+   * shape, and success means the decision stands under the partition rule.
+   */
+  verifyPartitionAware(
+    criteria: DecisionVertex[],
+    expectedType: ShapeType,
+    reachability: ReachabilityGraph | undefined = this.reachability
+  ): ConsensusResult {
+    const result = this.verifyConsensus(criteria, expectedType, 'Partition-aware consensus', this.abstentions, reachability);
 
     if (result.certificate.partitionInfo?.isPartitioned) {
       // Handle partitioned consensus
-      return this.handlePartitionedConsensus(result, criteria, expectedType);
+      return this.handlePartitionedConsensus(result, criteria, expectedType, reachability);
     }
 
     return result;
@@ -354,34 +709,196 @@ This proof is mathematically verifiable and follows RFC XXXX specifications.
 
   /**
    * Handle consensus in partitioned network
+   *
+   * Splits the criteria into reachable components, verifies each on the
+   * shape decomposed from the expected type for its size (see
+   * PartitionDetector.decomposeForComponent), and applies the partition
+   * rule. Under 'every-partition' the decision stands only if every
+   * partition reaches consensus. Under 'strict-quorum' only a partition
+   * holding more than half of the participants can decide, so two sides
+   * of a split never both finalize; every other partition's certificate is
+   * provisional until the network heals (see healProvisional). The
+   * whole-network certificate is kept, with the per-partition outcomes
+   * added to its proof, and is only valid if the decision stands.
    */
   private handlePartitionedConsensus(
     result: ConsensusResult,
-    _criteria: DecisionVertex[],
-    _expectedType: GeometricType
+    criteria: DecisionVertex[],
+    expectedType: ShapeType,
+    reachability?: ReachabilityGraph
   ): ConsensusResult {
-    const partitionCount = result.certificate.partitionInfo?.partitionCount || 1;
+    const components = this.partitionDetector.findReachableComponents(criteria.map(v => v.id), reachability);
+    const quorum = Math.floor(criteria.length / 2) + 1;
+
+    const partitions: PartitionVerdict[] = components.map((component, i) => {
+      const members = criteria.filter(v => component.has(v.id));
+      const description = `Partition ${i + 1} of ${components.length}`;
+      let verdict: PartitionVerdict;
+
+      try {
+        const decomposedType = this.partitionDetector.decomposeForComponent(expectedType, members.length);
+        verdict = {
+          vertexIds: members.map(v => v.id),
+          decomposedType,
+          result: this.verifyConsensus(members, decomposedType, description, this.abstentions, reachability)
+        };
+      } catch (error) {
+        verdict = {
+          vertexIds: members.map(v => v.id),
+          decomposedType: expectedType,
+          result: {
+            certificate: this.createErrorCertificate(members, expectedType, error as Error),
+            success: false,
+            message: `${description} cannot be decomposed: ${(error as Error).message}`
+          }
+        };
+      }
+
+      if (this.partitionRule === 'strict-quorum' && members.length < quorum) {
+        return this.markProvisional(verdict, {
+          reason: `${members.length} of ${criteria.length} participants is not a strict quorum (${quorum} needed)`,
+          originalType: expectedType,
+          originalParticipants: criteria.map(v => v.id),
+          quorum,
+          members: members.length
+        });
+      }
+      return verdict;
+    });
 
-    // For partitioned networks, we need to verify consensus within each partition
-    // This is a simplified implementation - full implementation would require
-    // actual partition detection and separate consensus verification
+    let stands: boolean;
+    let explanation: string;
+    let ruleLine: string;
+    if (this.partitionRule === 'strict-quorum') {
+      const deciding = partitions.findIndex(partition => partition.vertexIds.length >= quorum);
+      const provisionalNote = partitions.length > 1 ? '; the other partitions are provisional' : '';
+      stands = deciding !== -1 && partitions[deciding].result.success;
+      ruleLine = `- Rule (strict-quorum): only a partition holding at least ${quorum} of ${criteria.length} participants can decide`;
+      if (deciding === -1) {
+        explanation = `No partition holds a strict quorum of ${quorum} of ${criteria.length} participants, so the decision does not stand; every partition is provisional`;
+      } else {
+        const held = `Partition ${deciding + 1} holds a strict quorum (${partitions[deciding].vertexIds.length} of ${criteria.length})`;
+        explanation = stands
+          ? `${held} and reached consensus, so the decision stands${provisionalNote}`
+          : `${held} but did not reach consensus, so the decision does not stand${provisionalNote}`;
+      }
+    } else {
+      const reached = partitions.filter(partition => partition.result.success).length;
+      stands = reached === partitions.length;
+      ruleLine = '- Rule (every-partition): the decision stands only if every partition reaches consensus';
+      explanation = stands
+        ? `All ${partitions.length} partitions reached consensus, so the decision stands`
+        : `${partitions.length - reached} of ${partitions.length} partitions did not reach consensus, so the decision does not stand`;
+    }
 
-    const modifiedResult: ConsensusResult = {
-      ...result,
-      message: `Partitioned consensus: ${result.message} (${partitionCount} partitions detected)`,
-      certificate: {
+    const lines = partitions.map((partition, i) => {
+      const certificate = partition.result.certificate;
+      const outcome = certificate.provisional
+        ? `PROVISIONAL ${certificate.valid ? 'CONSENSUS' : 'NO CONSENSUS'}`
+        : partition.result.success ? 'CONSENSUS' : 'NO CONSENSUS';
+      return `- Partition ${i + 1} (${partition.vertexIds.join(', ')}) on ${getGeometricShape(partition.decomposedType).name}: ` +
+        `${certificate.agreesCount}/${partition.vertexIds.length} agree, need ${certificate.requiredCount} → ${outcome}`;
+    });
+
+    return {
+      certificate: this.finalizeCertificate({
         ...result.certificate,
-        proof: result.certificate.proof + `
+        valid: result.certificate.valid && stands,
+        partitionInfo: {
+          isPartitioned: true,
+          partitionCount: partitions.length,
+          rule: this.partitionRule,
+          stands
+        },
+        proof: `${result.certificate.proof}
 
 PARTITION DETECTION:
-- Network is partitioned into ${partitionCount} components
-- Consensus verification within partitions required
-- This certificate represents partitioned consensus state
-        `.trim()
+- Network is partitioned into ${partitions.length} components
+${lines.join('\n')}
+${ruleLine}
+- ${explanation}`
+      }),
+      success: stands,
+      message: `Partitioned consensus: ${explanation} (${partitions.length} partitions detected)`,
+      partitioned: {
+        partitions,
+        rule: this.partitionRule,
+        stands,
+        explanation
       }
     };
+  }
+
+  /**
+   * Turn a partition's verdict into a provisional one
+   *
+   * The certificate gets its own ID and is never a success, whatever its
+   * votes, so it cannot be mistaken for a final decision.
+   */
+  private markProvisional(verdict: PartitionVerdict, provisional: ProvisionalStatus): PartitionVerdict {
+    const certificate = verdict.result.certificate;
+
+    return {
+      ...verdict,
+      result: {
+        certificate: this.finalizeCertificate({
+          ...certificate,
+          certificateId: contentId('provisional-cert', { certificateId: certificate.certificateId, provisional }),
+          provisional
+        }),
+        success: false,
+        message: `Provisional (${provisional.reason}): ${verdict.result.message}`
+      }
+    };
+  }
+
+  /**
+   * Promote or roll back a provisional certificate once the network heals
+   *
+   * The criteria are the votes of the healed network, which must all be
+   * reachable again and belong to the original participants. They are
+   * verified on the original shape: the provisional decision is promoted
+   * if it reached consensus and the healed network does too, and rolled
+   * back otherwise. Either way the healed certificate supersedes it.
+   */
+  healProvisional(
+    provisional: ConsensusCertificate,
+    criteria: DecisionVertex[],
+    reachability: ReachabilityGraph | undefined = this.reachability
+  ): HealingOutcome {
+    const status = provisional.provisional;
+    if (!status) {
+      throw new Error(`Certificate ${provisional.certificateId} is not provisional`);
+    }
 
-    return modifiedResult;
+    const participants = new Set(status.originalParticipants);
+    const outsiders = criteria.filter(v => !participants.has(v.id)).map(v => v.id);
+    if (outsiders.length > 0) {
+      throw new Error(`Not original participants of ${provisional.certificateId}: ${outsiders.join(', ')}`);
+    }
+
+    const components = this.partitionDetector.findReachableComponents(criteria.map(v => v.id), reachability);
+    if (components.length > 1) {
+      throw new Error(`Participants are still partitioned into ${components.length} components`);
+    }
+
+    const healed = this.verifyConsensus(criteria, status.originalType, 'Healed consensus', this.abstentions, reachability);
+    const promoted = provisional.valid && healed.success;
+    const reason = promoted
+      ? `The healed network confirms the decision: ${healed.message}`
+      : provisional.valid
+        ? `The healed network does not confirm the decision: ${healed.message}`
+        : `The provisional partition did not reach consensus; the healed decision replaces it: ${healed.message}`;
+
+    return {
+      action: promoted ? 'promoted' : 'rolled_back',
+      provisional,
+      result: {
+        ...healed,
+        certificate: this.finalizeCertificate({ ...healed.certificate, supersedes: provisional.certificateId })
+      },
+      reason
+    };
   }
 
   /**
@@ -426,21 +943,37 @@ PARTITION DETECTION:
         return false;
       }
 
+      // Verify content hash if the certificate is sealed
+      if (certificate.contentHash && certificate.contentHash !== hashCertificate(certificate)) {
+        return false;
+      }
+
+      // Re-evaluate the votes under the certificate's own rules
+      const evaluation = evaluateVotes(certificate.shape, certificate.vertices, {
+        abstentions: certificate.tally?.abstentions,
+        weighted: certificate.weightTotals !== undefined
+      });
+
       // Verify agreement count
-      const actualAgrees = certificate.vertices.filter(v => v.agrees).length;
-      if (actualAgrees !== certificate.agreesCount) {
+      if (evaluation.agreesCount !== certificate.agreesCount) {
         return false;
       }
 
       // Verify required count calculation
-      const expectedRequired = calculateRequiredAgreement(certificate.shape);
-      if (expectedRequired !== certificate.requiredCount) {
+      if (evaluation.requiredCount !== certificate.requiredCount) {
+        return false;
+      }
+
+      // Verify weighted totals and the vote tally
+      if (certificate.weightTotals && canonicalize(evaluation.weightTotals) !== canonicalize(certificate.weightTotals)) {
+        return false;
+      }
+      if (certificate.tally && canonicalize(evaluation.tally) !== canonicalize(certificate.tally)) {
         return false;
       }
 
-      // Verify validity calculation
-      const expectedValid = isValidForConsensus(certificate.shape, certificate.agreesCount);
-      if (expectedValid !== certificate.valid) {
+      // Verify validity calculation; a partition rule can only withdraw it
+      if ((evaluation.valid && certificate.partitionInfo?.stands !== false) !== certificate.valid) {
         return false;
       }
 
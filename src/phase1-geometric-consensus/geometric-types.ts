@@ -42,14 +42,22 @@ export enum GeometricType {
   SNUB_DODECAHEDRON = 'SNUB_DODECAHEDRON'
 }
 
+/**
+ * Built-in type or the name of a shape added with registerShape
+ *
+ * Custom types travel in messages and certificates as their name.
+ */
+export type ShapeType = GeometricType | string;
+
 export interface GeometricShape {
-  type: GeometricType;
+  type: ShapeType;
   name: string;
   vertices: number;
   edges: number;
-  faces: number;
+  faces: number;            // 2-faces (polygons); 4D cells are only in fVector
+  fVector: number[];        // Face counts f₀ … f_d (vertices, edges, 2-faces, cells, …), ending with 1 for the shape itself
   threshold: number;        // Consensus threshold (0.0-1.0)
-  dual?: GeometricType;     // Dual polyhedron
+  dual?: ShapeType;         // Dual polyhedron
   isSelfDual: boolean;
   dimension: number;
   schlaefli?: string;       // Schläfli symbol
@@ -57,6 +65,12 @@ export interface GeometricShape {
   description: string;
 }
 
+export interface WeightTotals {
+  agreeing: number;  // Weight of the agreeing votes
+  total: number;     // Weight of all votes, plus 1 per empty vertex
+  required: number;  // total × threshold
+}
+
 /**
  * Complete lookup table of all geometric shapes with mathematical properties
  * Based on RFC XXXX Appendix A specifications
@@ -69,7 +83,9 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 1,
     edges: 0,
     faces: 0,
+    fVector: [1],
     threshold: 1.0,  // 1/1 = 100%
+    dual: GeometricType.POINT,
     isSelfDual: true,
     dimension: 0,
     context: 'local',
@@ -82,7 +98,9 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 2,
     edges: 1,
     faces: 0,
+    fVector: [2, 1],
     threshold: 1.0,  // 2/2 = 100%
+    dual: GeometricType.LINE,
     isSelfDual: true,
     dimension: 1,
     context: 'local',
@@ -95,7 +113,9 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 3,
     edges: 3,
     faces: 1,
+    fVector: [3, 3, 1],
     threshold: 1.0,  // 3/3 = 100%
+    dual: GeometricType.TRIANGLE,
     isSelfDual: true,
     dimension: 2,
     context: 'local',
@@ -108,6 +128,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 4,
     edges: 4,
     faces: 1,
+    fVector: [4, 4, 1],
     threshold: 0.75,  // 3/4 = 75%
     dual: GeometricType.SQUARE,
     isSelfDual: true,
@@ -123,6 +144,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 4,
     edges: 6,
     faces: 4,
+    fVector: [4, 6, 4, 1],
     threshold: 1.0,  // 4/4 = 100%
     dual: GeometricType.TETRAHEDRON,
     isSelfDual: true,
@@ -138,6 +160,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 8,
     edges: 12,
     faces: 6,
+    fVector: [8, 12, 6, 1],
     threshold: 0.5,  // 4/8 = 50%
     dual: GeometricType.OCTAHEDRON,
     isSelfDual: false,
@@ -153,6 +176,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 6,
     edges: 12,
     faces: 8,
+    fVector: [6, 12, 8, 1],
     threshold: 0.833,  // 5/6 = 83.3%
     dual: GeometricType.CUBE,
     isSelfDual: false,
@@ -168,6 +192,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 20,
     edges: 30,
     faces: 12,
+    fVector: [20, 30, 12, 1],
     threshold: 0.6,  // 12/20 = 60%
     dual: GeometricType.ICOSAHEDRON,
     isSelfDual: false,
@@ -183,6 +208,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 12,
     edges: 30,
     faces: 20,
+    fVector: [12, 30, 20, 1],
     threshold: 0.75,  // 9/12 = 75%
     dual: GeometricType.DODECAHEDRON,
     isSelfDual: false,
@@ -199,6 +225,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 5,
     edges: 10,
     faces: 10,
+    fVector: [5, 10, 10, 5, 1],
     threshold: 1.0,  // 5/5 = 100%
     dual: GeometricType.FIVE_CELL,
     isSelfDual: true,
@@ -214,6 +241,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 16,
     edges: 32,
     faces: 24,
+    fVector: [16, 32, 24, 8, 1],
     threshold: 0.5,  // 8/16 = 50%
     dual: GeometricType.SIXTEEN_CELL,
     isSelfDual: false,
@@ -229,6 +257,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 8,
     edges: 24,
     faces: 32,
+    fVector: [8, 24, 32, 16, 1],
     threshold: 0.75,  // 6/8 = 75%
     dual: GeometricType.EIGHT_CELL,
     isSelfDual: false,
@@ -244,6 +273,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 24,
     edges: 96,
     faces: 96,
+    fVector: [24, 96, 96, 24, 1],
     threshold: 0.833,  // 20/24 = 83.3%
     dual: GeometricType.TWENTY_FOUR_CELL,
     isSelfDual: true,
@@ -259,9 +289,9 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 120,
     edges: 720,
     faces: 1200,
+    fVector: [120, 720, 1200, 600, 1],
     threshold: 0.6,  // 72/120 = 60%
-    dual: GeometricType.SIX_HUNDRED_CELL,
-    isSelfDual: false,
+    isSelfDual: false,  // Dual is the 120-cell, which can be registered (see registerShape)
     dimension: 4,
     schlaefli: '{3,3,5}',
     context: 'federation',
@@ -275,6 +305,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 12,
     edges: 18,
     faces: 8,
+    fVector: [12, 18, 8, 1],
     threshold: 1.0,  // 12/12 = 100%
     isSelfDual: false,
     dimension: 3,
@@ -288,6 +319,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 12,
     edges: 24,
     faces: 14,
+    fVector: [12, 24, 14, 1],
     threshold: 0.833,  // 10/12 = 83.3%
     isSelfDual: false,
     dimension: 3,
@@ -301,6 +333,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 24,
     edges: 36,
     faces: 14,
+    fVector: [24, 36, 14, 1],
     threshold: 0.5,  // 12/24 = 50%
     isSelfDual: false,
     dimension: 3,
@@ -314,6 +347,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 24,
     edges: 36,
     faces: 14,
+    fVector: [24, 36, 14, 1],
     threshold: 0.75,  // 18/24 = 75%
     isSelfDual: false,
     dimension: 3,
@@ -327,6 +361,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 24,
     edges: 48,
     faces: 26,
+    fVector: [24, 48, 26, 1],
     threshold: 0.625,  // 15/24 = 62.5%
     isSelfDual: false,
     dimension: 3,
@@ -340,6 +375,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 48,
     edges: 72,
     faces: 26,
+    fVector: [48, 72, 26, 1],
     threshold: 0.5,  // 24/48 = 50%
     isSelfDual: false,
     dimension: 3,
@@ -353,6 +389,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 24,
     edges: 60,
     faces: 38,
+    fVector: [24, 60, 38, 1],
     threshold: 0.75,  // 18/24 = 75%
     isSelfDual: false,
     dimension: 3,
@@ -366,6 +403,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 30,
     edges: 60,
     faces: 32,
+    fVector: [30, 60, 32, 1],
     threshold: 0.8,  // 24/30 = 80%
     isSelfDual: false,
     dimension: 3,
@@ -379,6 +417,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 60,
     edges: 90,
     faces: 32,
+    fVector: [60, 90, 32, 1],
     threshold: 0.5,  // 30/60 = 50%
     isSelfDual: false,
     dimension: 3,
@@ -392,6 +431,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 60,
     edges: 90,
     faces: 32,
+    fVector: [60, 90, 32, 1],
     threshold: 0.75,  // 45/60 = 75%
     isSelfDual: false,
     dimension: 3,
@@ -405,6 +445,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 60,
     edges: 120,
     faces: 62,
+    fVector: [60, 120, 62, 1],
     threshold: 0.6,  // 36/60 = 60%
     isSelfDual: false,
     dimension: 3,
@@ -418,6 +459,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 120,
     edges: 180,
     faces: 62,
+    fVector: [120, 180, 62, 1],
     threshold: 0.5,  // 60/120 = 50%
     isSelfDual: false,
     dimension: 3,
@@ -431,6 +473,7 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
     vertices: 60,
     edges: 150,
     faces: 92,
+    fVector: [60, 150, 92, 1],
     threshold: 0.75,  // 45/60 = 75%
     isSelfDual: false,
     dimension: 3,
@@ -439,52 +482,207 @@ export const GEOMETRIC_SHAPES: Record<GeometricType, GeometricShape> = {
   }
 };
 
+const customShapes = new Map<string, GeometricShape>();
+const builtInDuals = new Map<string, string>();  // Built-in type without a dual → registered shape naming it as dual
+
+const SHAPE_TYPE_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*$/;
+const SHAPE_CONTEXTS: GeometricShape['context'][] = ['local', 'federation', 'global'];
+
 /**
- * Get geometric shape by type
+ * Get geometric shape by type (built-in or registered)
+ *
+ * Types arrive from the network, so only the table's own entries count:
+ * names like 'toString' or '__proto__' are unknown types.
  */
-export function getGeometricShape(type: GeometricType): GeometricShape {
-  const shape = GEOMETRIC_SHAPES[type];
+export function getGeometricShape(type: ShapeType): GeometricShape {
+  const shape = Object.hasOwn(GEOMETRIC_SHAPES, type) ? GEOMETRIC_SHAPES[type as GeometricType] : customShapes.get(type);
   if (!shape) {
     throw new Error(`Unknown geometric type: ${type}`);
   }
   return shape;
 }
 
+/**
+ * Whether a type is built in or registered
+ */
+export function hasShape(type: ShapeType): boolean {
+  return Object.hasOwn(GEOMETRIC_SHAPES, type) || customShapes.has(type);
+}
+
+/**
+ * All built-in and registered shapes
+ */
+export function getAllShapes(): GeometricShape[] {
+  return [...Object.values(GEOMETRIC_SHAPES), ...customShapes.values()];
+}
+
+/**
+ * Register an organisation-specific shape
+ *
+ * The shape is checked together with the existing registry (see
+ * validateShapeRegistry), so its dual must already be registered and point
+ * back; a dual pair is registered by passing both shapes. A built-in shape
+ * without a dual of its own (e.g. the 600-cell) can be named as the dual,
+ * and getDual then links it back to the registered shape. Built-in types
+ * cannot be replaced.
+ */
+export function registerShape(...shapes: GeometricShape[]): void {
+  const candidates: Record<string, GeometricShape> = {};
+  getAllShapes().forEach(shape => { candidates[shape.type] = shape; });
+
+  const errors: string[] = [];
+  shapes.forEach(shape => {
+    if (typeof shape.type !== 'string' || !SHAPE_TYPE_PATTERN.test(shape.type)) {
+      errors.push(`${shape.name}: type must be a name of letters, digits, '_' or '-'`);
+    } else if (hasShape(shape.type)) {
+      errors.push(`${shape.name}: type ${shape.type} is already registered`);
+    } else if (!Array.isArray(shape.fVector)) {
+      errors.push(`${shape.name}: f-vector is missing`);
+    } else if (!shape.fVector.every(count => Number.isInteger(count) && count > 0)) {
+      errors.push(`${shape.name}: f-vector entries must be positive integers`);
+    } else if (!SHAPE_CONTEXTS.includes(shape.context)) {
+      errors.push(`${shape.name}: context must be one of ${SHAPE_CONTEXTS.join(', ')}`);
+    } else {
+      candidates[shape.type] = { ...shape, fVector: [...shape.fVector] };
+    }
+  });
+  const links = shapes.filter(shape => isUnpairedBuiltIn(shape.dual));
+  links.forEach(shape => {
+    candidates[shape.dual as string] = { ...GEOMETRIC_SHAPES[shape.dual as GeometricType], dual: shape.type };
+  });
+  if (errors.length > 0) {
+    throw new Error(`Cannot register shape: ${errors.join('; ')}`);
+  }
+
+  errors.push(...validateShapeRegistry(candidates));
+  if (errors.length > 0) {
+    throw new Error(`Cannot register shape: ${errors.join('; ')}`);
+  }
+
+  shapes.forEach(shape => customShapes.set(shape.type, candidates[shape.type]));
+  links.forEach(shape => builtInDuals.set(shape.dual as string, shape.type));
+}
+
+/**
+ * Whether a type is a built-in shape with no dual and no registered one
+ */
+function isUnpairedBuiltIn(type: ShapeType | undefined): boolean {
+  return type !== undefined && Object.hasOwn(GEOMETRIC_SHAPES, type) &&
+         GEOMETRIC_SHAPES[type as GeometricType].dual === undefined && !builtInDuals.has(type);
+}
+
+/**
+ * Remove a registered shape (built-in shapes cannot be removed)
+ *
+ * A shape that is the dual of another registered shape is kept.
+ */
+export function unregisterShape(type: ShapeType): boolean {
+  const shape = customShapes.get(type);
+  if (!shape) {
+    return false;
+  }
+
+  const referenced = Array.from(customShapes.values()).some(other => other.type !== type && other.dual === type);
+  if (referenced) {
+    throw new Error(`Cannot unregister ${type}: it is the dual of another registered shape`);
+  }
+
+  if (shape.dual !== undefined && builtInDuals.get(shape.dual) === type) {
+    builtInDuals.delete(shape.dual);
+  }
+  return customShapes.delete(type);
+}
+
 /**
  * Get all shapes for a specific context
  */
 export function getShapesByContext(context: 'local' | 'federation' | 'global'): GeometricShape[] {
-  return Object.values(GEOMETRIC_SHAPES).filter(shape => shape.context === context);
+  return getAllShapes().filter(shape => shape.context === context);
 }
 
 /**
  * Get dual of a geometric shape
+ *
+ * A built-in shape without a dual of its own returns the registered shape
+ * that names it as dual, if any.
  */
 export function getDual(shape: GeometricShape): GeometricShape | null {
   if (shape.isSelfDual) {
     return shape;
   }
-  if (shape.dual) {
-    return getGeometricShape(shape.dual);
-  }
-  return null;
+  const dual = shape.dual ?? builtInDuals.get(shape.type);
+  return dual ? getGeometricShape(dual) : null;
 }
 
 /**
  * Calculate required agreement count for consensus
+ *
+ * Abstentions excluded from the denominator reduce the vertex count the
+ * threshold applies to.
  */
-export function calculateRequiredAgreement(shape: GeometricShape): number {
-  return Math.ceil(shape.vertices * shape.threshold);
+export function calculateRequiredAgreement(shape: GeometricShape, abstentions: number = 0): number {
+  return Math.ceil((shape.vertices - abstentions) * shape.threshold);
 }
 
 /**
  * Check if a shape is valid for consensus
+ *
+ * With a participant count, the vote is also rejected when there are more
+ * participants than the shape has vertices.
  */
-export function isValidForConsensus(shape: GeometricShape, agreesCount: number): boolean {
-  const required = calculateRequiredAgreement(shape);
+export function isValidForConsensus(
+  shape: GeometricShape,
+  agreesCount: number,
+  participantCount?: number,
+  abstentions: number = 0
+): boolean {
+  if (participantCount !== undefined && participantCount > shape.vertices) {
+    return false;
+  }
+
+  const required = calculateRequiredAgreement(shape, abstentions);
   return agreesCount >= required;
 }
 
+/**
+ * Weighted agreement of votes on a shape
+ *
+ * Votes without a weight and the shape's empty vertices weigh 1, so unit
+ * weights give the same outcome as counting heads. Votes marked as
+ * abstaining are left out of the total.
+ */
+export function calculateWeightTotals(
+  shape: GeometricShape,
+  votes: Array<{ id: string; agrees: boolean; weight?: number; abstains?: boolean }>
+): WeightTotals {
+  let agreeing = 0;
+  let total = Math.max(0, shape.vertices - votes.length);
+
+  votes.forEach(vote => {
+    const weight = vote.weight ?? 1;
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Vote weight must be a non-negative number, got ${vote.weight} for ${vote.id}`);
+    }
+    if (!vote.abstains) {
+      total += weight;
+    }
+    if (vote.agrees) {
+      agreeing += weight;
+    }
+  });
+
+  return { agreeing, total, required: total * shape.threshold };
+}
+
+/**
+ * Check weighted totals for consensus
+ *
+ * As with head counts, more participants than vertices is never valid.
+ */
+export function isValidForWeightedConsensus(shape: GeometricShape, totals: WeightTotals, participantCount: number): boolean {
+  return participantCount <= shape.vertices && totals.agreeing >= totals.required;
+}
+
 /**
  * Get consensus keyword for a shape
  */
@@ -504,7 +702,7 @@ export function getConsensusKeyword(shape: GeometricShape): string {
  * Find shapes by vertex count range
  */
 export function findShapesByVertexRange(minVertices: number, maxVertices: number): GeometricShape[] {
-  return Object.values(GEOMETRIC_SHAPES).filter(
+  return getAllShapes().filter(
     shape => shape.vertices >= minVertices && shape.vertices <= maxVertices
   );
 }
@@ -513,7 +711,79 @@ export function findShapesByVertexRange(minVertices: number, maxVertices: number
  * Get shapes suitable for a given number of participants
  */
 export function getSuitableShapes(participantCount: number): GeometricShape[] {
-  return Object.values(GEOMETRIC_SHAPES).filter(
+  return getAllShapes().filter(
     shape => shape.vertices >= participantCount
   ).sort((a, b) => a.vertices - b.vertices);
 }
+
+/**
+ * Check shape definitions for internal consistency
+ *
+ * For each shape:
+ * - fVector has dimension + 1 entries ending in 1, and agrees with
+ *   vertices/edges/faces
+ * - Euler–Poincaré: f₀ − f₁ + f₂ − … ± f_d = 1
+ * - the dual exists, points back, and has the reversed f-vector
+ *   (f_i of the dual = f_{d−1−i}); isSelfDual holds exactly when the dual
+ *   is the shape itself
+ * - the threshold lies in 0-1
+ *
+ * Returns the problems found.
+ */
+export function validateShapeRegistry(shapes: Record<string, GeometricShape>): string[] {
+  const errors: string[] = [];
+
+  Object.entries(shapes).forEach(([key, shape]) => {
+    const { fVector, dimension } = shape;
+    const fail = (problem: string) => errors.push(`${shape.name}: ${problem}`);
+
+    if (shape.type !== key) {
+      fail(`registered under ${key} but has type ${shape.type}`);
+    }
+
+    if (fVector.length !== dimension + 1 || fVector[dimension] !== 1) {
+      fail(`f-vector ${JSON.stringify(fVector)} does not fit dimension ${dimension}`);
+    }
+    if (shape.vertices !== fVector[0] || shape.edges !== (fVector[1] ?? 0) ||
+        shape.faces !== (dimension >= 2 ? fVector[2] : 0)) {
+      fail(`vertices/edges/faces ${shape.vertices}/${shape.edges}/${shape.faces} disagree with f-vector ${JSON.stringify(fVector)}`);
+    }
+
+    const euler = fVector.reduce((sum, count, i) => sum + (i % 2 === 0 ? count : -count), 0);
+    if (euler !== 1) {
+      fail(`Euler–Poincaré sum is ${euler}, expected 1`);
+    }
+
+    if (shape.isSelfDual !== (shape.dual === shape.type)) {
+      fail(`isSelfDual is ${shape.isSelfDual} but dual is ${shape.dual ?? 'unset'}`);
+    }
+
+    if (shape.dual) {
+      const dual = Object.hasOwn(shapes, shape.dual) ? shapes[shape.dual] : undefined;
+      if (!dual) {
+        fail(`dual ${shape.dual} is not registered`);
+      } else {
+        const reversed = fVector.slice(0, dimension).reverse();
+        if (dual.dual !== shape.type) {
+          fail(`dual ${dual.name} does not point back`);
+        }
+        if (dual.dimension !== dimension ||
+            dual.fVector.slice(0, dimension).join(',') !== reversed.join(',')) {
+          fail(`dual ${dual.name} f-vector ${JSON.stringify(dual.fVector)} is not the reverse of ${JSON.stringify(fVector)}`);
+        }
+      }
+    }
+
+    if (!(shape.threshold >= 0 && shape.threshold <= 1)) {
+      fail(`threshold ${shape.threshold} is outside 0-1`);
+    }
+  });
+
+  return errors;
+}
+
+// Self-check the registry when the module loads
+const registryErrors = validateShapeRegistry(GEOMETRIC_SHAPES);
+if (registryErrors.length > 0) {
+  throw new Error(`Inconsistent GEOMETRIC_SHAPES: ${registryErrors.join('; ')}`);
+}
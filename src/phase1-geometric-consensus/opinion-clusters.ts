@@ -0,0 +1,46 @@
+/**
+ * Opinion Clustering
+ *
+ * Groups participants by how they voted, after delegation is resolved.
+ * This describes the shape of a disagreement, not the network: a split
+ * vote says nothing about whether participants can reach each other (see
+ * PartitionDetector for that).
+ */
+
+import { DecisionVertex } from './geometric-consensus.js';
+import { VOTE_VALUES, VoteValue, resolveVotes } from './vote-resolution.js';
+
+export interface OpinionCluster {
+  vote: VoteValue;
+  vertexIds: string[];  // In input order
+}
+
+export interface OpinionClusters {
+  clusters: OpinionCluster[];  // Non-empty clusters, in agree/disagree/abstain/veto order
+  clusterCount: number;
+  unanimous: boolean;          // At most one cluster
+  largest?: OpinionCluster;    // Ties go to the earlier cluster
+}
+
+/**
+ * Cluster decision vertices by resolved vote
+ */
+export function clusterOpinions(vertices: DecisionVertex[]): OpinionClusters {
+  const { values } = resolveVotes(vertices);
+
+  const clusters = VOTE_VALUES
+    .map(vote => ({ vote, vertexIds: vertices.filter((_, i) => values[i] === vote).map(v => v.id) }))
+    .filter(cluster => cluster.vertexIds.length > 0);
+
+  const largest = clusters.reduce<OpinionCluster | undefined>(
+    (best, cluster) => (!best || cluster.vertexIds.length > best.vertexIds.length ? cluster : best),
+    undefined
+  );
+
+  return {
+    clusters,
+    clusterCount: clusters.length,
+    unanimous: clusters.length <= 1,
+    largest
+  };
+}
@@ -3,22 +3,52 @@
  *
  * Implements RFC XXXX Appendix I partition handling using Betti numbers
  * and geometric decomposition for O(v) partition detection.
+ *
+ * Partitions come from reachability (heartbeats, observed network edges),
+ * never from how participants voted: a 3-yes/1-no vote on a healthy
+ * network is one component. Grouping by vote is opinion clustering (see
+ * opinion-clusters.ts).
  */
 
-import { GeometricType, getGeometricShape } from './geometric-types.js';
+import {
+  GeometricShape,
+  GeometricType,
+  ShapeType,
+  calculateRequiredAgreement,
+  getAllShapes,
+  getConsensusKeyword,
+  getGeometricShape,
+  getSuitableShapes
+} from './geometric-types.js';
 import { BettiCalculator, Vertex, Edge, BettiNumbers } from './betti-numbers.js';
 import { DecisionVertex, ConsensusCertificate } from './geometric-consensus.js';
+import { PersistenceCalculator, PersistenceBarcode, FiltrationEdge } from './persistent-homology.js';
+import { DynamicConnectivity } from './connectivity.js';
+import { contentId } from '../crypto/ids.js';
+
+export interface ReachabilityGraph {
+  edges: Array<{ from: string; to: string }>;  // Links observed between participants; a NetworkTopology fits
+}
 
 export interface PartitionInfo {
   isPartitioned: boolean;
   partitionCount: number;  // β₀
   components: Set<string>[];
   bettiNumbers: BettiNumbers;
-  originalGeometricType: GeometricType;
-  decomposedGeometricType?: GeometricType;
+  originalGeometricType: ShapeType;
+  decomposedGeometricType?: ShapeType;       // For equal partitions
+  decomposedGeometricTypes?: ShapeType[];    // Per component, sized to it
   partitionVertices: DecisionVertex[][];
 }
 
+export interface SplitRisk {
+  aboutToSplit: boolean;          // Connected now, but only through links at or above the threshold
+  isPartitioned: boolean;         // β₀ > 1 even with every link present
+  criticalScale: number;          // Value of the weakest link still needed for connectivity
+  componentsAtThreshold: number;  // β₀ using only links below the threshold
+  barcode: PersistenceBarcode;
+}
+
 export interface PartitionCertificate {
   certificateId: string;
   originalCertificate: ConsensusCertificate;
@@ -35,24 +65,28 @@ export interface PartitionCertificate {
  */
 export class PartitionDetector {
   private bettiCalculator: BettiCalculator;
+  private persistenceCalculator: PersistenceCalculator;
 
   constructor() {
     this.bettiCalculator = new BettiCalculator();
+    this.persistenceCalculator = new PersistenceCalculator();
   }
 
   /**
    * Detect network partition via Betti numbers
    *
    * Algorithm:
-   * 1. Build consensus graph from decision vertices
+   * 1. Build the reachability graph between the decision vertices
    * 2. Calculate Betti numbers using algebraic topology
    * 3. β₀ > 1 indicates partition
    * 4. Decompose geometric type based on partition count
+   *
+   * Without a topology every vertex is assumed reachable.
    */
-  detectViaBettiNumbers(vertices: DecisionVertex[]): PartitionInfo {
+  detectViaBettiNumbers(vertices: DecisionVertex[], topology?: ReachabilityGraph): PartitionInfo {
     // Convert decision vertices to topological vertices
     const topologicalVertices = this.convertToVertices(vertices);
-    const edges = this.buildConsensusEdges(vertices);
+    const edges = this.buildReachabilityEdges(vertices.map(v => v.id), topology);
 
     // Calculate Betti numbers
     const bettiNumbers = this.bettiCalculator.calculateBettiNumbers(topologicalVertices, edges);
@@ -68,9 +102,13 @@ export class PartitionDetector {
     const originalGeometricType = this.inferGeometricType(vertices.length);
 
     // Decompose geometric type if partitioned
-    let decomposedGeometricType: GeometricType | undefined;
+    let decomposedGeometricType: ShapeType | undefined;
+    let decomposedGeometricTypes: ShapeType[] | undefined;
     if (isPartitioned) {
       decomposedGeometricType = this.decomposeGeometricType(originalGeometricType, partitionCount);
+      decomposedGeometricTypes = components.map(component =>
+        this.decomposeForComponent(originalGeometricType, component.size)
+      );
     }
 
     // Group vertices by partition
@@ -83,133 +121,92 @@ export class PartitionDetector {
       bettiNumbers,
       originalGeometricType,
       decomposedGeometricType,
+      decomposedGeometricTypes,
       partitionVertices
     };
   }
 
   /**
-   * Decompose geometric type under partition
+   * Flag a network that is about to split
    *
-   * Maps original geometric type to appropriate decomposed type
-   * based on partition count and geometric properties
+   * Uses the β₀ persistence barcode of the weighted links (e.g. latency,
+   * 1 − reliability, vote distance): a component whose bar only dies at or
+   * above `splitThreshold` is attached to the rest by weak links alone, so
+   * the network splits as soon as those links degrade, before β₀ > 1.
    */
-  decomposeGeometricType(original: GeometricType, partitionCount: number): GeometricType {
-    const decompositionMap: Record<GeometricType, Record<number, GeometricType>> = {
-      // Cube (8 vertices) decompositions
-      [GeometricType.CUBE]: {
-        2: GeometricType.TETRAHEDRON,  // 2 partitions → 2 tetrahedra
-        4: GeometricType.TRIANGLE,     // 4 partitions → 4 triangles
-        8: GeometricType.POINT         // 8 partitions → 8 points
-      },
-
-      // Octahedron (6 vertices) decompositions
-      [GeometricType.OCTAHEDRON]: {
-        2: GeometricType.TRIANGLE,     // 2 partitions → 2 triangles
-        3: GeometricType.LINE,         // 3 partitions → 3 lines
-        6: GeometricType.POINT         // 6 partitions → 6 points
-      },
-
-      // Tetrahedron (4 vertices) decompositions
-      [GeometricType.TETRAHEDRON]: {
-        2: GeometricType.LINE,         // 2 partitions → 2 lines
-        4: GeometricType.POINT         // 4 partitions → 4 points
-      },
-
-      // 24-cell (24 vertices) decompositions
-      [GeometricType.TWENTY_FOUR_CELL]: {
-        2: GeometricType.DODECAHEDRON, // 2 partitions → 2 dodecahedra
-        3: GeometricType.OCTAHEDRON,   // 3 partitions → 3 octahedra
-        4: GeometricType.TETRAHEDRON,  // 4 partitions → 4 tetrahedra
-        6: GeometricType.SQUARE,       // 6 partitions → 6 squares
-        8: GeometricType.TRIANGLE,     // 8 partitions → 8 triangles
-        12: GeometricType.LINE,        // 12 partitions → 12 lines
-        24: GeometricType.POINT        // 24 partitions → 24 points
-      },
-
-      // 5-cell (5 vertices) decompositions
-      [GeometricType.FIVE_CELL]: {
-        2: GeometricType.TRIANGLE,     // 2 partitions → 2 triangles
-        5: GeometricType.POINT         // 5 partitions → 5 points
-      },
-
-      // Default decompositions for other types
-      [GeometricType.DODECAHEDRON]: {
-        2: GeometricType.ICOSAHEDRON,
-        4: GeometricType.OCTAHEDRON,
-        5: GeometricType.TETRAHEDRON,
-        10: GeometricType.TRIANGLE,
-        20: GeometricType.POINT
-      },
-
-      [GeometricType.ICOSAHEDRON]: {
-        2: GeometricType.DODECAHEDRON,
-        3: GeometricType.OCTAHEDRON,
-        4: GeometricType.TETRAHEDRON,
-        6: GeometricType.TRIANGLE,
-        12: GeometricType.POINT
-      },
-
-      // Add missing GeometricType values
-      [GeometricType.POINT]: { 1: GeometricType.POINT },
-      [GeometricType.LINE]: { 1: GeometricType.LINE, 2: GeometricType.POINT },
-      [GeometricType.TRIANGLE]: { 1: GeometricType.TRIANGLE, 2: GeometricType.LINE, 3: GeometricType.POINT },
-      [GeometricType.SQUARE]: { 1: GeometricType.SQUARE, 2: GeometricType.LINE, 4: GeometricType.POINT },
-      [GeometricType.EIGHT_CELL]: { 1: GeometricType.EIGHT_CELL, 2: GeometricType.CUBE, 4: GeometricType.TETRAHEDRON, 8: GeometricType.POINT },
-      [GeometricType.SIXTEEN_CELL]: { 1: GeometricType.SIXTEEN_CELL, 2: GeometricType.OCTAHEDRON, 4: GeometricType.TETRAHEDRON, 8: GeometricType.TRIANGLE, 16: GeometricType.POINT },
-      [GeometricType.SIX_HUNDRED_CELL]: { 1: GeometricType.SIX_HUNDRED_CELL, 2: GeometricType.ICOSAHEDRON, 3: GeometricType.DODECAHEDRON, 4: GeometricType.OCTAHEDRON, 5: GeometricType.TETRAHEDRON, 6: GeometricType.TRIANGLE, 10: GeometricType.LINE, 20: GeometricType.POINT },
-      [GeometricType.TRUNCATED_TETRAHEDRON]: { 1: GeometricType.TRUNCATED_TETRAHEDRON, 2: GeometricType.TRIANGLE, 4: GeometricType.POINT },
-      [GeometricType.CUBOCTAHEDRON]: { 1: GeometricType.CUBOCTAHEDRON, 2: GeometricType.TETRAHEDRON, 3: GeometricType.TRIANGLE, 6: GeometricType.POINT },
-      [GeometricType.TRUNCATED_CUBE]: { 1: GeometricType.TRUNCATED_CUBE, 2: GeometricType.CUBE, 4: GeometricType.TETRAHEDRON, 8: GeometricType.POINT },
-      [GeometricType.TRUNCATED_OCTAHEDRON]: { 1: GeometricType.TRUNCATED_OCTAHEDRON, 2: GeometricType.OCTAHEDRON, 3: GeometricType.TETRAHEDRON, 6: GeometricType.POINT },
-      [GeometricType.RHOMBICUBOCTAHEDRON]: { 1: GeometricType.RHOMBICUBOCTAHEDRON, 2: GeometricType.CUBE, 4: GeometricType.TETRAHEDRON, 8: GeometricType.POINT },
-      [GeometricType.TRUNCATED_CUBOCTAHEDRON]: { 1: GeometricType.TRUNCATED_CUBOCTAHEDRON, 2: GeometricType.CUBOCTAHEDRON, 3: GeometricType.TETRAHEDRON, 6: GeometricType.POINT },
-      [GeometricType.SNUB_CUBE]: { 1: GeometricType.SNUB_CUBE, 2: GeometricType.CUBE, 4: GeometricType.TETRAHEDRON, 8: GeometricType.POINT },
-      [GeometricType.ICOSIDODECAHEDRON]: { 1: GeometricType.ICOSIDODECAHEDRON, 2: GeometricType.DODECAHEDRON, 3: GeometricType.ICOSAHEDRON, 6: GeometricType.TETRAHEDRON, 12: GeometricType.POINT },
-      [GeometricType.TRUNCATED_DODECAHEDRON]: { 1: GeometricType.TRUNCATED_DODECAHEDRON, 2: GeometricType.DODECAHEDRON, 3: GeometricType.ICOSAHEDRON, 6: GeometricType.TETRAHEDRON, 12: GeometricType.POINT },
-      [GeometricType.TRUNCATED_ICOSAHEDRON]: { 1: GeometricType.TRUNCATED_ICOSAHEDRON, 2: GeometricType.ICOSAHEDRON, 3: GeometricType.DODECAHEDRON, 6: GeometricType.TETRAHEDRON, 12: GeometricType.POINT },
-      [GeometricType.RHOMBICOSIDODECAHEDRON]: { 1: GeometricType.RHOMBICOSIDODECAHEDRON, 2: GeometricType.DODECAHEDRON, 3: GeometricType.ICOSAHEDRON, 6: GeometricType.TETRAHEDRON, 12: GeometricType.POINT },
-      [GeometricType.TRUNCATED_ICOSIDODECAHEDRON]: { 1: GeometricType.TRUNCATED_ICOSIDODECAHEDRON, 2: GeometricType.ICOSAHEDRON, 3: GeometricType.DODECAHEDRON, 6: GeometricType.TETRAHEDRON, 12: GeometricType.POINT },
-      [GeometricType.SNUB_DODECAHEDRON]: { 1: GeometricType.SNUB_DODECAHEDRON, 2: GeometricType.DODECAHEDRON, 3: GeometricType.ICOSAHEDRON, 6: GeometricType.TETRAHEDRON, 12: GeometricType.POINT }
-    };
+  assessSplitRisk(vertexIds: string[], edges: FiltrationEdge[], splitThreshold: number): SplitRisk {
+    const barcode = this.persistenceCalculator.computeBarcode(vertexIds, edges);
 
-    // Get decomposition mapping for original type
-    const typeDecompositions = decompositionMap[original];
-    if (!typeDecompositions) {
-      // Default decomposition: reduce to simpler shapes
-      return this.getDefaultDecomposition(original, partitionCount);
-    }
+    const essential = barcode.beta_0.filter(interval => interval.death === Infinity).length;
+    const finiteDeaths = barcode.beta_0
+      .filter(interval => interval.death !== Infinity)
+      .map(interval => interval.death);
 
-    // Find exact match or closest lower partition count
-    let bestMatch = GeometricType.POINT; // Default fallback
-    let bestPartitionCount = 0;
+    const isPartitioned = essential > 1;
+    const componentsAtThreshold = essential + finiteDeaths.filter(death => death >= splitThreshold).length;
 
-    for (const [partitionCountKey, decomposedType] of Object.entries(typeDecompositions)) {
-      const count = parseInt(partitionCountKey);
-      if (count <= partitionCount && count > bestPartitionCount) {
-        bestMatch = decomposedType;
-        bestPartitionCount = count;
-      }
-    }
+    return {
+      aboutToSplit: !isPartitioned && componentsAtThreshold > 1,
+      isPartitioned,
+      criticalScale: finiteDeaths.length > 0 ? Math.max(...finiteDeaths) : 0,
+      componentsAtThreshold,
+      barcode
+    };
+  }
 
-    return bestMatch;
+  /**
+   * Decompose geometric type under partition
+   *
+   * Assumes equal partitions: each holds an even share of the original
+   * vertices (rounded up). Use decomposeForComponent for uneven splits.
+   */
+  decomposeGeometricType(original: ShapeType, partitionCount: number): ShapeType {
+    const shape = getGeometricShape(original);
+    return this.decomposeForComponent(original, Math.ceil(shape.vertices / Math.max(1, partitionCount)));
   }
 
   /**
-   * Get default decomposition for unknown geometric types
+   * Decompose a shape for one partition of a given size
+   *
+   * Keeps the original threshold inside the partition: among the registered
+   * shapes that seat every member, the one requiring the fewest agreeing
+   * votes that is still at least ⌈size × original threshold⌉ wins. MUST
+   * stays unanimous and MAY stays a majority, or the nearest stricter
+   * quorum the shapes allow. Ties prefer the original keyword strength,
+   * then fewer empty vertices. A shape the partition can satisfy beats one
+   * it cannot; with neither, the partition cannot reach consensus. No shape
+   * weaker than the original threshold is ever returned.
    */
-  private getDefaultDecomposition(original: GeometricType, partitionCount: number): GeometricType {
+  decomposeForComponent(original: ShapeType, componentSize: number): ShapeType {
+    if (!Number.isInteger(componentSize) || componentSize < 1) {
+      throw new Error(`Component size must be a positive integer, got ${componentSize}`);
+    }
+
     const shape = getGeometricShape(original);
-    const verticesPerPartition = Math.floor(shape.vertices / partitionCount);
-
-    // Map vertex count to appropriate geometric type
-    if (verticesPerPartition >= 20) return GeometricType.DODECAHEDRON;
-    if (verticesPerPartition >= 12) return GeometricType.ICOSAHEDRON;
-    if (verticesPerPartition >= 8) return GeometricType.CUBE;
-    if (verticesPerPartition >= 6) return GeometricType.OCTAHEDRON;
-    if (verticesPerPartition >= 4) return GeometricType.TETRAHEDRON;
-    if (verticesPerPartition >= 3) return GeometricType.TRIANGLE;
-    if (verticesPerPartition >= 2) return GeometricType.LINE;
-    return GeometricType.POINT;
+    const strength = getConsensusKeyword(shape).split('_')[0];
+    const target = Math.ceil(componentSize * shape.threshold);
+
+    const rank = (candidate: GeometricShape): number[] => {
+      const required = calculateRequiredAgreement(candidate);
+      return [
+        required <= componentSize ? 0 : 1,
+        required,
+        getConsensusKeyword(candidate).startsWith(`${strength}_`) ? 0 : 1,
+        candidate.vertices
+      ];
+    };
+    const candidates = getSuitableShapes(componentSize)
+      .filter(candidate => calculateRequiredAgreement(candidate) >= target)
+      .map(candidate => ({ candidate, rank: rank(candidate) }))
+      .sort((a, b) => {
+        const index = a.rank.findIndex((value, i) => value !== b.rank[i]);
+        return index === -1 ? 0 : a.rank[index] - b.rank[index];
+      });
+
+    if (candidates.length === 0) {
+      throw new Error(`No registered shape keeps ${shape.name}'s threshold for ${componentSize} members`);
+    }
+    return candidates[0].candidate.type;
   }
 
   /**
@@ -224,76 +221,63 @@ export class PartitionDetector {
   }
 
   /**
-   * Build consensus edges based on agreement relationships
+   * Reachable groups of vertices
+   *
+   * Components are ordered by their first vertex in the input. Without a
+   * topology all vertices form one component.
    */
-  private buildConsensusEdges(vertices: DecisionVertex[]): Edge[] {
-    const edges: Edge[] = [];
-
-    for (let i = 0; i < vertices.length; i++) {
-      for (let j = i + 1; j < vertices.length; j++) {
-        const v1 = vertices[i];
-        const v2 = vertices[j];
-
-        // Connect vertices that agree (both agree or both disagree)
-        if (v1.agrees === v2.agrees) {
-          edges.push({
-            id: `consensus-edge-${i}-${j}`,
-            from: v1.id,
-            to: v2.id
-          });
-        }
-      }
-    }
-
-    return edges;
+  findReachableComponents(vertexIds: string[], topology?: ReachabilityGraph): Set<string>[] {
+    const connectivity = new DynamicConnectivity(vertexIds);
+    this.buildReachabilityEdges(vertexIds, topology).forEach(edge => connectivity.addEdge(edge.from, edge.to));
+    return connectivity.getComponents();
   }
 
   /**
-   * Find connected components using DFS
+   * Build reachability edges between known vertices
+   *
+   * Topology links to unknown vertices, self-links and repeated links are
+   * dropped. Without a topology the vertices are chained together, which
+   * connects them without adding cycles.
    */
-  private findConnectedComponents(vertices: DecisionVertex[], edges: Edge[]): Set<string>[] {
-    const components: Set<string>[] = [];
-    const visited = new Set<string>();
-
-    // Build adjacency list
-    const adjacency = new Map<string, string[]>();
-    vertices.forEach(v => adjacency.set(v.id, []));
+  private buildReachabilityEdges(vertexIds: string[], topology?: ReachabilityGraph): Edge[] {
+    if (!topology) {
+      return vertexIds.slice(1).map((id, i) => ({
+        id: `reachability-edge-${i}`,
+        from: vertexIds[i],
+        to: id
+      }));
+    }
 
-    edges.forEach(edge => {
-      adjacency.get(edge.from)?.push(edge.to);
-      adjacency.get(edge.to)?.push(edge.from);
-    });
+    const known = new Set(vertexIds);
+    const seen = new Set<string>();
+    const edges: Edge[] = [];
 
-    // Find components using DFS
-    vertices.forEach(vertex => {
-      if (!visited.has(vertex.id)) {
-        const component = new Set<string>();
-        this.dfs(vertex.id, adjacency, visited, component);
-        components.push(component);
+    topology.edges.forEach(link => {
+      const key = link.from < link.to ? `${link.from}|${link.to}` : `${link.to}|${link.from}`;
+      if (link.from === link.to || !known.has(link.from) || !known.has(link.to) || seen.has(key)) {
+        return;
       }
+      seen.add(key);
+      edges.push({ id: `reachability-edge-${edges.length}`, from: link.from, to: link.to });
     });
 
-    return components;
+    return edges;
   }
 
   /**
-   * Depth-first search for connected components
+   * Find connected components with disjoint sets
+   *
+   * Components are ordered by their first vertex in the input.
    */
-  private dfs(
-    vertexId: string,
-    adjacency: Map<string, string[]>,
-    visited: Set<string>,
-    component: Set<string>
-  ): void {
-    visited.add(vertexId);
-    component.add(vertexId);
-
-    const neighbors = adjacency.get(vertexId) || [];
-    neighbors.forEach(neighborId => {
-      if (!visited.has(neighborId)) {
-        this.dfs(neighborId, adjacency, visited, component);
-      }
-    });
+  private findConnectedComponents(vertices: DecisionVertex[], edges: Edge[]): Set<string>[] {
+    const vertexIds = new Set(vertices.map(v => v.id));
+    const connectivity = new DynamicConnectivity(vertexIds);
+
+    edges
+      .filter(edge => vertexIds.has(edge.from) && vertexIds.has(edge.to))
+      .forEach(edge => connectivity.addEdge(edge.from, edge.to));
+
+    return connectivity.getComponents();
   }
 
   /**
@@ -307,8 +291,11 @@ export class PartitionDetector {
 
   /**
    * Infer geometric type from vertex count
+   *
+   * Built-in shapes win; registered custom shapes fill the remaining counts.
+   * Counts no shape matches get the smallest shape with room for them.
    */
-  private inferGeometricType(vertexCount: number): GeometricType {
+  private inferGeometricType(vertexCount: number): ShapeType {
     const vertexToType: Record<number, GeometricType> = {
       1: GeometricType.POINT,
       2: GeometricType.LINE,
@@ -324,7 +311,22 @@ export class PartitionDetector {
       120: GeometricType.SIX_HUNDRED_CELL
     };
 
-    return vertexToType[vertexCount] || GeometricType.CUBE; // Default fallback
+    if (vertexToType[vertexCount]) {
+      return vertexToType[vertexCount];
+    }
+
+    // Registered shapes cover counts without a built-in shape
+    const registered = getAllShapes().find(shape => shape.vertices === vertexCount);
+    if (registered) {
+      return registered.type;
+    }
+
+    // Otherwise the smallest shape with room, leaving vertices empty
+    const padded = getSuitableShapes(vertexCount)[0];
+    if (!padded) {
+      throw new Error(`No registered shape has room for ${vertexCount} vertices`);
+    }
+    return padded.type;
   }
 
   /**
@@ -335,7 +337,12 @@ export class PartitionDetector {
     partitionInfo: PartitionInfo
   ): PartitionCertificate {
     return {
-      certificateId: this.generateCertificateId(),
+      certificateId: contentId('partition-cert', {
+        originalCertificateId: originalCertificate.certificateId,
+        originalGeometricType: partitionInfo.originalGeometricType,
+        decomposedGeometricType: partitionInfo.decomposedGeometricType,
+        partitions: partitionInfo.partitionVertices.map(partition => partition.map(v => v.id))
+      }),
       originalCertificate,
       partitionInfo,
       decompositionProof: this.generateDecompositionProof(partitionInfo),
@@ -351,6 +358,10 @@ export class PartitionDetector {
 
     const originalShape = getGeometricShape(originalGeometricType);
     const decomposedShape = decomposedGeometricType ? getGeometricShape(decomposedGeometricType) : null;
+    const componentLines = (partitionInfo.decomposedGeometricTypes || []).map((type, i) => {
+      const shape = getGeometricShape(type);
+      return `\n- Component ${i + 1}: ${partitionInfo.partitionVertices[i].length} members on ${shape.name} (${calculateRequiredAgreement(shape)} must agree)`;
+    }).join('');
 
     return `
 Geometric Decomposition Proof:
@@ -363,7 +374,7 @@ Given:
 Decomposition:
 - Network partitioned into ${partitionCount} components
 - Each component requires independent consensus
-- Decomposed Type: ${decomposedShape?.name || 'N/A'} (${decomposedGeometricType || 'N/A'})
+- Decomposed Type: ${decomposedShape?.name || 'N/A'} (${decomposedGeometricType || 'N/A'})${componentLines}
 
 Mathematical Verification:
 1. β₀ = ${bettiNumbers.beta_0} > 1 → Network is partitioned
@@ -379,15 +390,6 @@ This decomposition follows RFC XXXX Appendix I specifications.
     `.trim();
   }
 
-  /**
-   * Generate unique certificate ID
-   */
-  private generateCertificateId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `partition-cert-${timestamp}-${random}`;
-  }
-
   /**
    * Analyze partition impact on consensus
    */
@@ -408,10 +410,13 @@ This decomposition follows RFC XXXX Appendix I specifications.
       };
     }
 
-    const decomposedShape = getGeometricShape(decomposedGeometricType);
-    const requiredAgreementPerPartition = partitionVertices.map(partition =>
-      Math.ceil(partition.length * decomposedShape.threshold)
-    );
+    // Per-component shapes when known, otherwise the equal-split shape
+    const requiredAgreementPerPartition = partitionVertices.map((partition, index) => {
+      const componentType = partitionInfo.decomposedGeometricTypes?.[index];
+      return componentType
+        ? calculateRequiredAgreement(getGeometricShape(componentType))
+        : Math.ceil(partition.length * getGeometricShape(decomposedGeometricType).threshold);
+    });
 
     const totalRequiredAgreement = requiredAgreementPerPartition.reduce((sum, req) => sum + req, 0);
     const consensusPossible = partitionVertices.every((partition, index) => {
@@ -0,0 +1,224 @@
+/**
+ * Persistent Homology over Weighted Filtrations
+ *
+ * Measures how robust a topology is rather than whether it is connected at
+ * one moment. Edges enter a Vietoris–Rips-style filtration at their weight
+ * (lower = stronger link); a triangle enters once all three of its edges
+ * are present. Persistence barcodes record at which scale each component
+ * (β₀) and cycle (β₁) is born and dies: a β₀ bar that only dies at a high
+ * scale is a group of vertices held to the rest by weak links.
+ */
+
+import { DecisionVertex } from './geometric-consensus.js';
+import { resolveVotes } from './vote-resolution.js';
+
+export interface FiltrationEdge {
+  from: string;
+  to: string;
+  value: number;  // Filtration scale at which the edge appears (≥ 0, lower = stronger)
+}
+
+export interface PersistenceInterval {
+  dimension: 0 | 1;
+  birth: number;
+  death: number;  // Infinity for classes that never die
+}
+
+export interface PersistenceBarcode {
+  beta_0: PersistenceInterval[];  // Components, longest-lived first
+  beta_1: PersistenceInterval[];  // Cycles, longest-lived first
+}
+
+interface FiltrationSimplex {
+  vertices: number[];  // Sorted vertex indices
+  value: number;
+  dimension: number;
+}
+
+/**
+ * Filtration from measured link latency (ms)
+ */
+export function latencyFiltration(edges: Array<{ from: string; to: string; latency: number }>): FiltrationEdge[] {
+  return edges.map(edge => ({ from: edge.from, to: edge.to, value: edge.latency }));
+}
+
+/**
+ * Filtration from link reliability (0-1): reliable links enter first
+ */
+export function reliabilityFiltration(edges: Array<{ from: string; to: string; reliability: number }>): FiltrationEdge[] {
+  return edges.map(edge => ({ from: edge.from, to: edge.to, value: 1 - edge.reliability }));
+}
+
+/**
+ * Filtration from vote similarity between decision vertices
+ *
+ * Votes are compared after delegation is resolved (see resolveVotes), so
+ * abstentions, vetoes and delegated votes count as they do everywhere
+ * else. Vertices with the same resolved vote are at distance
+ * |w₁ − w₂| / max weight; vertices voting differently are at least 1 apart.
+ */
+export function voteSimilarityFiltration(vertices: DecisionVertex[]): FiltrationEdge[] {
+  const { values } = resolveVotes(vertices);
+  const maxWeight = Math.max(1, ...vertices.map(v => v.weight ?? 1));
+  const edges: FiltrationEdge[] = [];
+
+  for (let i = 0; i < vertices.length; i++) {
+    for (let j = i + 1; j < vertices.length; j++) {
+      const disagreement = values[i] === values[j] ? 0 : 1;
+      const weightGap = Math.abs((vertices[i].weight ?? 1) - (vertices[j].weight ?? 1)) / maxWeight;
+      edges.push({ from: vertices[i].id, to: vertices[j].id, value: disagreement + weightGap });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Persistent homology calculator for β₀ and β₁
+ */
+export class PersistenceCalculator {
+
+  /**
+   * Compute β₀ and β₁ persistence barcodes
+   *
+   * Algorithm:
+   * 1. Vertices enter at 0, edges at their value, triangles at the
+   *    largest value of their edges (2-skeleton of the Rips complex)
+   * 2. Order simplices by value, then dimension
+   * 3. Reduce the filtered boundary matrix over Z/2
+   * 4. Each pivot pairs a birth with a death; unpaired births never die
+   *
+   * Zero-length intervals are omitted. Duplicate edges keep their lowest
+   * value; edges referencing unknown vertices are ignored.
+   */
+  computeBarcode(vertexIds: string[], edges: FiltrationEdge[]): PersistenceBarcode {
+    const simplices = this.buildFiltration(vertexIds, edges);
+
+    const position = new Map<string, number>();
+    simplices.forEach((simplex, i) => position.set(simplex.vertices.join(','), i));
+
+    const reduced: number[][] = [];
+    const pivotOwner = new Map<number, number>();  // lowest row → column
+    const paired = new Set<number>();
+    const intervals: PersistenceInterval[] = [];
+
+    simplices.forEach((simplex, j) => {
+      let column = simplex.dimension === 0
+        ? []
+        : simplex.vertices
+          .map((_, k) => position.get(simplex.vertices.filter((_, m) => m !== k).join(',')) as number)
+          .sort((a, b) => a - b);
+
+      while (column.length > 0 && pivotOwner.has(column[column.length - 1])) {
+        column = this.addMod2(column, reduced[pivotOwner.get(column[column.length - 1]) as number]);
+      }
+      reduced[j] = column;
+
+      if (column.length > 0) {
+        const low = column[column.length - 1];
+        pivotOwner.set(low, j);
+        paired.add(low);
+        paired.add(j);
+
+        const born = simplices[low];
+        if (born.dimension <= 1 && simplex.value > born.value) {
+          intervals.push({ dimension: born.dimension as 0 | 1, birth: born.value, death: simplex.value });
+        }
+      }
+    });
+
+    // Births that are never killed live forever
+    simplices.forEach((simplex, i) => {
+      if (!paired.has(i) && reduced[i].length === 0 && simplex.dimension <= 1) {
+        intervals.push({ dimension: simplex.dimension as 0 | 1, birth: simplex.value, death: Infinity });
+      }
+    });
+
+    const byPersistence = (a: PersistenceInterval, b: PersistenceInterval) =>
+      (b.death - b.birth) - (a.death - a.birth) || a.birth - b.birth;
+
+    return {
+      beta_0: intervals.filter(i => i.dimension === 0).sort(byPersistence),
+      beta_1: intervals.filter(i => i.dimension === 1).sort(byPersistence)
+    };
+  }
+
+  /**
+   * Betti numbers of the filtration at a given scale
+   */
+  bettiAt(barcode: PersistenceBarcode, scale: number): { beta_0: number; beta_1: number } {
+    const alive = (interval: PersistenceInterval) => interval.birth <= scale && scale < interval.death;
+    return {
+      beta_0: barcode.beta_0.filter(alive).length,
+      beta_1: barcode.beta_1.filter(alive).length
+    };
+  }
+
+  /**
+   * Build the filtration ordered by value, then dimension
+   */
+  private buildFiltration(vertexIds: string[], edges: FiltrationEdge[]): FiltrationSimplex[] {
+    const index = new Map<string, number>();
+    vertexIds.forEach((id, i) => index.set(id, i));
+
+    // Lowest value per undirected edge
+    const edgeValues = new Map<number, Map<number, number>>();
+    edges.forEach(edge => {
+      if (!Number.isFinite(edge.value) || edge.value < 0) {
+        throw new Error(`Filtration value must be a non-negative number, got ${edge.value} for ${edge.from}-${edge.to}`);
+      }
+
+      const a = index.get(edge.from);
+      const b = index.get(edge.to);
+      if (a === undefined || b === undefined || a === b) {
+        return;
+      }
+
+      const [low, high] = a < b ? [a, b] : [b, a];
+      const neighbors = edgeValues.get(low) || new Map<number, number>();
+      neighbors.set(high, Math.min(edge.value, neighbors.get(high) ?? Infinity));
+      edgeValues.set(low, neighbors);
+    });
+
+    const simplices: FiltrationSimplex[] = vertexIds.map((_, i) => ({ vertices: [i], value: 0, dimension: 0 }));
+
+    edgeValues.forEach((neighbors, a) => {
+      neighbors.forEach((value, b) => {
+        simplices.push({ vertices: [a, b], value, dimension: 1 });
+
+        // Triangles a < b < c whose three edges all exist
+        const bNeighbors = edgeValues.get(b);
+        neighbors.forEach((acValue, c) => {
+          const bcValue = bNeighbors?.get(c);
+          if (c > b && bcValue !== undefined) {
+            simplices.push({ vertices: [a, b, c], value: Math.max(value, acValue, bcValue), dimension: 2 });
+          }
+        });
+      });
+    });
+
+    return simplices.sort((x, y) => x.value - y.value || x.dimension - y.dimension);
+  }
+
+  /**
+   * Sum of two sorted Z/2 columns (symmetric difference)
+   */
+  private addMod2(a: number[], b: number[]): number[] {
+    const result: number[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length || j < b.length) {
+      if (j >= b.length || (i < a.length && a[i] < b[j])) {
+        result.push(a[i++]);
+      } else if (i >= a.length || b[j] < a[i]) {
+        result.push(b[j++]);
+      } else {
+        i++;
+        j++;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,520 @@
+/**
+ * Polytope Combinatorics for Geometric Shapes
+ *
+ * Generates the vertex/edge/face incidence of every shape in
+ * GEOMETRIC_SHAPES from explicit vertex coordinates instead of hand-written
+ * tables. Edges are the vertex pairs at minimal distance (all shapes here
+ * are uniform, so every edge has the same length). Facets are found as
+ * supporting hyperplanes through a vertex and its neighbours; the 2-faces
+ * of a 4D polytope are the facets of its cells.
+ *
+ * Every generated polytope is checked against the shape's f-vector and its
+ * Euler characteristic before it is used.
+ */
+
+import { GeometricShape, GeometricType, ShapeType, getGeometricShape, hasShape } from './geometric-types.js';
+
+export interface Polytope {
+  type: ShapeType;
+  dimension: number;
+  coordinates: number[][];  // Vertex positions, centred on the origin
+  edges: number[][];        // Vertex index pairs
+  faces: number[][];        // 2-faces as vertex index cycles
+  cells: number[][];        // 3-faces as sorted vertex index sets (4D only)
+}
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+const SQRT2 = Math.sqrt(2);
+const TRIBONACCI = 1.8392867552141612;  // Real root of t³ = t² + t + 1
+const EPSILON = 1e-6;
+
+/**
+ * Real root of ξ³ − 2ξ = φ, used by the snub dodecahedron
+ */
+const XI = (() => {
+  let x = 2;
+  for (let i = 0; i < 50; i++) {
+    x -= (x * x * x - 2 * x - PHI) / (3 * x * x - 2);
+  }
+  return x;
+})();
+
+const cache = new Map<ShapeType, Polytope>();
+
+/**
+ * Vertex coordinates for each shape
+ *
+ * Standard constructions: sign changes and (even) permutations of a few
+ * base points, with the golden ratio for icosahedral symmetry.
+ */
+const COORDINATES: Record<GeometricType, () => number[][]> = {
+  [GeometricType.POINT]: () => [[]],
+  [GeometricType.LINE]: () => [[-1], [1]],
+  [GeometricType.TRIANGLE]: () => [0, 1, 2].map(k => [Math.cos(2 * Math.PI * k / 3), Math.sin(2 * Math.PI * k / 3)]),
+  [GeometricType.SQUARE]: () => [[1, 1], [-1, 1], [-1, -1], [1, -1]],
+
+  [GeometricType.TETRAHEDRON]: () => [[1, 1, 1], [1, -1, -1], [-1, 1, -1], [-1, -1, 1]],
+  [GeometricType.CUBE]: () => signs([1, 1, 1]),
+  [GeometricType.OCTAHEDRON]: () => permutations([1, 0, 0], 'all').flatMap(p => signs(p)),
+  [GeometricType.DODECAHEDRON]: () => [
+    ...signs([1, 1, 1]),
+    ...orbit([0, 1 / PHI, PHI], 'even')
+  ],
+  [GeometricType.ICOSAHEDRON]: () => orbit([0, 1, PHI], 'even'),
+
+  [GeometricType.FIVE_CELL]: () => [
+    [1, 1, 1, -1 / Math.sqrt(5)],
+    [1, -1, -1, -1 / Math.sqrt(5)],
+    [-1, 1, -1, -1 / Math.sqrt(5)],
+    [-1, -1, 1, -1 / Math.sqrt(5)],
+    [0, 0, 0, 4 / Math.sqrt(5)]
+  ],
+  [GeometricType.EIGHT_CELL]: () => signs([1, 1, 1, 1]),
+  [GeometricType.SIXTEEN_CELL]: () => orbit([1, 0, 0, 0], 'all'),
+  [GeometricType.TWENTY_FOUR_CELL]: () => orbit([1, 1, 0, 0], 'all'),
+  [GeometricType.SIX_HUNDRED_CELL]: () => [
+    ...orbit([2, 0, 0, 0], 'all'),
+    ...signs([1, 1, 1, 1]),
+    ...orbit([PHI, 1, 1 / PHI, 0], 'even')
+  ],
+
+  [GeometricType.TRUNCATED_TETRAHEDRON]: () =>
+    orbit([3, 1, 1], 'all').filter(p => p.filter(x => x < 0).length % 2 === 0),
+  [GeometricType.CUBOCTAHEDRON]: () => orbit([1, 1, 0], 'all'),
+  [GeometricType.TRUNCATED_CUBE]: () => orbit([SQRT2 - 1, 1, 1], 'all'),
+  [GeometricType.TRUNCATED_OCTAHEDRON]: () => orbit([0, 1, 2], 'all'),
+  [GeometricType.RHOMBICUBOCTAHEDRON]: () => orbit([1, 1, 1 + SQRT2], 'all'),
+  [GeometricType.TRUNCATED_CUBOCTAHEDRON]: () => orbit([1, 1 + SQRT2, 1 + 2 * SQRT2], 'all'),
+  [GeometricType.SNUB_CUBE]: () => [
+    // One chirality: even permutations with an even number of plus signs,
+    // odd permutations with an odd number
+    ...permutations([1, 1 / TRIBONACCI, TRIBONACCI], 'even').flatMap(p => signs(p, 'even')),
+    ...permutations([1, 1 / TRIBONACCI, TRIBONACCI], 'odd').flatMap(p => signs(p, 'odd'))
+  ],
+  [GeometricType.ICOSIDODECAHEDRON]: () => [
+    ...orbit([0, 0, PHI], 'even'),
+    ...orbit([1 / 2, PHI / 2, PHI * PHI / 2], 'even')
+  ],
+  [GeometricType.TRUNCATED_DODECAHEDRON]: () => [
+    ...orbit([0, 1 / PHI, 2 + PHI], 'even'),
+    ...orbit([1 / PHI, PHI, 2 * PHI], 'even'),
+    ...orbit([PHI, 2, PHI + 1], 'even')
+  ],
+  [GeometricType.TRUNCATED_ICOSAHEDRON]: () => [
+    ...orbit([0, 1, 3 * PHI], 'even'),
+    ...orbit([1, 2 + PHI, 2 * PHI], 'even'),
+    ...orbit([PHI, 2, 2 * PHI + 1], 'even')
+  ],
+  [GeometricType.RHOMBICOSIDODECAHEDRON]: () => [
+    ...orbit([1, 1, 2 * PHI + 1], 'even'),
+    ...orbit([PHI + 1, PHI, 2 * PHI], 'even'),
+    ...orbit([2 + PHI, 0, PHI + 1], 'even')
+  ],
+  [GeometricType.TRUNCATED_ICOSIDODECAHEDRON]: () => [
+    ...orbit([1 / PHI, 1 / PHI, 3 + PHI], 'even'),
+    ...orbit([2 / PHI, PHI, 1 + 2 * PHI], 'even'),
+    ...orbit([1 / PHI, PHI + 1, 3 * PHI - 1], 'even'),
+    ...orbit([2 * PHI - 1, 2, 2 + PHI], 'even'),
+    ...orbit([PHI, 3, 2 * PHI], 'even')
+  ],
+  [GeometricType.SNUB_DODECAHEDRON]: () => {
+    const a = XI - 1 / XI;
+    const b = XI * PHI + PHI * PHI + PHI / XI;
+    return [
+      [2 * a, 2, 2 * b],
+      [a + b / PHI + PHI, -a * PHI + b + 1 / PHI, a / PHI + b * PHI - 1],
+      [a + b / PHI - PHI, a * PHI - b + 1 / PHI, a / PHI + b * PHI + 1],
+      [-a / PHI + b * PHI + 1, -a + b / PHI - PHI, a * PHI + b - 1 / PHI],
+      [-a / PHI + b * PHI - 1, a - b / PHI - PHI, a * PHI + b + 1 / PHI]
+    ]
+      .flatMap(point => permutations(point, 'even'))
+      .flatMap(p => signs(p, 'even'));
+  }
+};
+
+/**
+ * Generated combinatorics for a shape, validated against its definition
+ *
+ * Built-in shapes have explicit coordinates and are cached per type.
+ * Registered shapes of dimension 2 or less are generated as regular
+ * polygons (or a point or segment); other custom shapes have no geometry.
+ */
+export function getPolytope(type: ShapeType): Polytope {
+  const cached = cache.get(type);
+  if (cached) {
+    return cached;
+  }
+
+  const shape = getGeometricShape(type);
+  const builtIn = Object.hasOwn(COORDINATES, type) ? COORDINATES[type as GeometricType] : undefined;
+  const coordinates = builtIn ? builtIn() : regularPolygon(shape);
+  if (!coordinates) {
+    throw new Error(`No coordinates for ${shape.name}: custom shapes above dimension 2 have no generated geometry`);
+  }
+
+  const polytope = generatePolytope(type, shape.dimension, coordinates);
+  const errors = validatePolytope(shape, polytope);
+  if (errors.length > 0) {
+    throw new Error(`Generated ${shape.name} does not match its definition: ${errors.join('; ')}`);
+  }
+
+  if (builtIn) {
+    cache.set(type, polytope);
+  }
+  return polytope;
+}
+
+/**
+ * Whether getPolytope can generate combinatorics for a type
+ */
+export function hasPolytope(type: ShapeType): boolean {
+  return Object.hasOwn(COORDINATES, type) || (hasShape(type) && regularPolygon(getGeometricShape(type)) !== null);
+}
+
+/**
+ * Compare a polytope against a shape definition
+ *
+ * Checks the vertex, edge, face and cell counts, and the Euler characteristic:
+ * V − E + F = 1 for shapes of dimension ≤ 2 (the filled polygon),
+ * V − E + F = 2 for polyhedra and V − E + F − C = 0 for 4D polytopes
+ * (their boundary spheres). Returns the problems found.
+ */
+export function validatePolytope(shape: GeometricShape, polytope: Polytope): string[] {
+  const errors: string[] = [];
+  const counts: Array<[string, number, number]> = [
+    ['vertices', polytope.coordinates.length, shape.vertices],
+    ['edges', polytope.edges.length, shape.edges],
+    ['faces', polytope.faces.length, shape.faces],
+    ['cells', polytope.cells.length, shape.dimension === 4 ? shape.fVector[3] : 0]
+  ];
+
+  counts.forEach(([name, actual, expected]) => {
+    if (actual !== expected) {
+      errors.push(`${actual} ${name}, expected ${expected}`);
+    }
+  });
+
+  const euler = polytope.coordinates.length - polytope.edges.length + polytope.faces.length - polytope.cells.length;
+  const expectedEuler = eulerCharacteristic(shape.dimension);
+  if (euler !== expectedEuler) {
+    errors.push(`Euler characteristic ${euler}, expected ${expectedEuler}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Split faces into triangles and 4D cells into tetrahedra
+ *
+ * Faces are fanned from their first vertex. Each cell is coned from its
+ * lowest vertex over the face triangles not containing it, so neighbouring
+ * cells share the same triangulation of their common face.
+ */
+export function triangulatePolytope(polytope: Polytope): { triangles: number[][]; tetrahedra: number[][] } {
+  const faceTriangles = polytope.faces.map(face =>
+    face.slice(1, -1).map((vertex, i) => [face[0], vertex, face[i + 2]])
+  );
+
+  const tetrahedra: number[][] = [];
+  polytope.cells.forEach(cell => {
+    const members = new Set(cell);
+    const apex = cell[0];
+
+    polytope.faces.forEach((face, i) => {
+      if (face.every(v => members.has(v)) && !face.includes(apex)) {
+        faceTriangles[i].forEach(triangle => tetrahedra.push([apex, ...triangle]));
+      }
+    });
+  });
+
+  return { triangles: faceTriangles.flat(), tetrahedra };
+}
+
+/**
+ * Euler characteristic of the complex built for a shape of this dimension
+ */
+function eulerCharacteristic(dimension: number): number {
+  return dimension <= 2 ? 1 : 1 - Math.pow(-1, dimension);
+}
+
+/**
+ * Derive edges, faces and cells from vertex coordinates
+ */
+function generatePolytope(type: ShapeType, dimension: number, coordinates: number[][]): Polytope {
+  const edges = findEdges(coordinates);
+  const adjacency = coordinates.map(() => [] as number[]);
+  edges.forEach(([a, b]) => {
+    adjacency[a].push(b);
+    adjacency[b].push(a);
+  });
+
+  let faces: number[][] = [];
+  let cells: number[][] = [];
+
+  if (dimension === 2) {
+    faces = [orderCycle(coordinates.map((_, i) => i), adjacency)];
+  } else if (dimension === 3) {
+    faces = findFacets(coordinates, adjacency).map(facet => orderCycle(facet, adjacency));
+  } else if (dimension === 4) {
+    cells = findFacets(coordinates, adjacency);
+    faces = findCellFaces(coordinates, adjacency, cells);
+  }
+
+  return { type, dimension, coordinates, edges, faces, cells };
+}
+
+/**
+ * Coordinates of a regular polygon (or point or segment) for a custom shape
+ *
+ * Returns null for shapes that are not polygons.
+ */
+function regularPolygon(shape: GeometricShape): number[][] | null {
+  if (shape.dimension === 0 && shape.vertices === 1) {
+    return [[]];
+  }
+  if (shape.dimension === 1 && shape.vertices === 2) {
+    return [[-1], [1]];
+  }
+  if (shape.dimension === 2 && shape.vertices >= 3 && shape.edges === shape.vertices) {
+    return Array.from({ length: shape.vertices }, (_, k) => {
+      const angle = 2 * Math.PI * k / shape.vertices;
+      return [Math.cos(angle), Math.sin(angle)];
+    });
+  }
+  return null;
+}
+
+/**
+ * Vertex pairs at the minimal distance
+ */
+function findEdges(coordinates: number[][]): number[][] {
+  const pairs: Array<{ pair: number[]; length: number }> = [];
+  for (let i = 0; i < coordinates.length; i++) {
+    for (let j = i + 1; j < coordinates.length; j++) {
+      pairs.push({ pair: [i, j], length: norm(subtract(coordinates[i], coordinates[j])) });
+    }
+  }
+
+  const shortest = Math.min(...pairs.map(p => p.length));
+  return pairs.filter(p => p.length - shortest < EPSILON * shortest).map(p => p.pair);
+}
+
+/**
+ * Facets of a convex polytope as sorted vertex sets
+ *
+ * Every facet contains a vertex together with enough of its edges to span
+ * the facet, so candidate hyperplanes are spanned by a vertex and d − 1 of
+ * its neighbours. A candidate is a facet if all vertices lie on one side.
+ */
+function findFacets(coordinates: number[][], adjacency: number[][]): number[][] {
+  const dimension = coordinates[0].length;
+  const facets = new Map<string, number[]>();
+
+  coordinates.forEach((origin, v) => {
+    combinations(adjacency[v], dimension - 1).forEach(neighbors => {
+      const normal = nullVector(neighbors.map(n => subtract(coordinates[n], origin)));
+      const length = norm(normal);
+      if (length < EPSILON) {
+        return;
+      }
+
+      const base = dot(normal, origin);
+      const facet: number[] = [];
+      let above = false;
+      let below = false;
+
+      for (let i = 0; i < coordinates.length && !(above && below); i++) {
+        const offset = (dot(normal, coordinates[i]) - base) / length;
+        if (offset > EPSILON) {
+          above = true;
+        } else if (offset < -EPSILON) {
+          below = true;
+        } else {
+          facet.push(i);
+        }
+      }
+
+      if (!(above && below)) {
+        facets.set(facet.join(','), facet);
+      }
+    });
+  });
+
+  return Array.from(facets.values());
+}
+
+/**
+ * 2-faces of a 4D polytope: the faces of each cell, found in the cell's
+ * own 3D hyperplane
+ */
+function findCellFaces(coordinates: number[][], adjacency: number[][], cells: number[][]): number[][] {
+  const faces = new Map<string, number[]>();
+
+  cells.forEach(cell => {
+    const local = new Map<number, number>();
+    cell.forEach((vertex, i) => local.set(vertex, i));
+    const cellAdjacency = cell.map(vertex => adjacency[vertex].filter(n => local.has(n)).map(n => local.get(n) as number));
+
+    findFacets(projectToHyperplane(cell.map(v => coordinates[v])), cellAdjacency).forEach(facet => {
+      const face = orderCycle(facet.map(i => cell[i]), adjacency);
+      faces.set([...face].sort((a, b) => a - b).join(','), face);
+    });
+  });
+
+  return Array.from(faces.values());
+}
+
+/**
+ * Coordinates of points in the affine hull they span (orthonormal basis)
+ */
+function projectToHyperplane(points: number[][]): number[][] {
+  const origin = points[0];
+  const basis: number[][] = [];
+
+  points.slice(1).forEach(point => {
+    let direction = subtract(point, origin);
+    basis.forEach(axis => {
+      direction = subtract(direction, axis.map(x => x * dot(direction, axis)));
+    });
+    const length = norm(direction);
+    if (length > EPSILON) {
+      basis.push(direction.map(x => x / length));
+    }
+  });
+
+  return points.map(point => basis.map(axis => dot(subtract(point, origin), axis)));
+}
+
+/**
+ * Order the vertices of a polygonal face by walking its edges
+ */
+function orderCycle(vertices: number[], adjacency: number[][]): number[] {
+  const members = new Set(vertices);
+  const start = Math.min(...vertices);
+  const cycle = [start];
+  let previous = -1;
+  let current = start;
+
+  while (cycle.length < vertices.length) {
+    const next = adjacency[current].find(n => members.has(n) && n !== previous && !cycle.includes(n));
+    if (next === undefined) {
+      break;
+    }
+    cycle.push(next);
+    previous = current;
+    current = next;
+  }
+
+  return cycle;
+}
+
+/**
+ * Vector orthogonal to d − 1 vectors in d dimensions (generalised cross
+ * product: signed cofactors of the d−1 × d matrix)
+ */
+function nullVector(vectors: number[][]): number[] {
+  const dimension = vectors.length + 1;
+  return Array.from({ length: dimension }, (_, column) => {
+    const minor = vectors.map(row => row.filter((_, j) => j !== column));
+    return (column % 2 === 0 ? 1 : -1) * determinant(minor);
+  });
+}
+
+/**
+ * Determinant by cofactor expansion (matrices here are at most 3×3)
+ */
+function determinant(matrix: number[][]): number {
+  if (matrix.length === 0) {
+    return 1;
+  }
+  if (matrix.length === 2) {
+    return matrix[0][0] * matrix[1][1] - matrix[0][1] * matrix[1][0];
+  }
+  if (matrix.length === 3) {
+    const [[a, b, c], [d, e, f], [g, h, i]] = matrix;
+    return a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  }
+  return matrix[0].reduce((sum, value, column) => {
+    const minor = matrix.slice(1).map(row => row.filter((_, j) => j !== column));
+    return sum + (column % 2 === 0 ? 1 : -1) * value * determinant(minor);
+  }, 0);
+}
+
+/**
+ * All k-element subsets of a list
+ */
+function combinations<T>(items: T[], k: number): T[][] {
+  if (k === 0) {
+    return [[]];
+  }
+  return items.flatMap((item, i) => combinations(items.slice(i + 1), k - 1).map(rest => [item, ...rest]));
+}
+
+/**
+ * Permutations of a point's coordinates, optionally restricted by parity
+ */
+function permutations(point: number[], parity: 'all' | 'even' | 'odd'): number[][] {
+  const result: number[][] = [];
+  const permute = (prefix: number[], rest: number[], odd: boolean) => {
+    if (rest.length === 0) {
+      if (parity === 'all' || (parity === 'odd') === odd) {
+        result.push(prefix.map(i => point[i]));
+      }
+      return;
+    }
+    // Taking the element at position i moves it past i others
+    rest.forEach((index, i) => {
+      permute([...prefix, index], rest.filter((_, j) => j !== i), odd !== (i % 2 === 1));
+    });
+  };
+
+  permute([], point.map((_, i) => i), false);
+  return unique(result);
+}
+
+/**
+ * Every sign change of the non-zero coordinates
+ *
+ * With a parity, only variants whose number of plus signs (coordinates
+ * left unchanged) has that parity are kept.
+ */
+function signs(point: number[], plusParity?: 'even' | 'odd'): number[][] {
+  const variants = point.reduce<Array<{ point: number[]; plus: number }>>(
+    (partial, x) => partial.flatMap(v => x === 0
+      ? [{ point: [...v.point, 0], plus: v.plus }]
+      : [{ point: [...v.point, x], plus: v.plus + 1 }, { point: [...v.point, -x], plus: v.plus }]),
+    [{ point: [], plus: 0 }]
+  );
+
+  return variants
+    .filter(v => plusParity === undefined || (v.plus % 2 === 0) === (plusParity === 'even'))
+    .map(v => v.point);
+}
+
+/**
+ * Permutations (of the given parity) combined with all sign changes
+ */
+function orbit(point: number[], parity: 'all' | 'even'): number[][] {
+  return unique(permutations(point, parity).flatMap(p => signs(p)));
+}
+
+/**
+ * Drop duplicate points
+ */
+function unique(points: number[][]): number[][] {
+  const seen = new Map<string, number[]>();
+  points.forEach(point => seen.set(point.map(x => x.toFixed(9)).join(','), point));
+  return Array.from(seen.values());
+}
+
+function subtract(a: number[], b: number[]): number[] {
+  return a.map((x, i) => x - b[i]);
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, x, i) => sum + x * b[i], 0);
+}
+
+function norm(a: number[]): number {
+  return Math.sqrt(dot(a, a));
+}
@@ -0,0 +1,127 @@
+/**
+ * Shape Selection and Vertex Mapping
+ *
+ * Chooses the geometric shape for a group of participants and seats each
+ * participant on a vertex. A shape with more vertices than participants is
+ * padded: the empty vertices never agree, so padding can only make
+ * consensus harder. A shape with fewer vertices than participants cannot
+ * hold the vote and is rejected.
+ */
+
+import {
+  GeometricShape,
+  ShapeType,
+  calculateRequiredAgreement,
+  getAllShapes,
+  getConsensusKeyword
+} from './geometric-types.js';
+
+export type ConsensusStrength = 'MUST' | 'SHOULD' | 'MAY';
+
+export interface ShapeSelection {
+  shapeType: ShapeType;
+  participantCount: number;
+  vertexCount: number;
+  emptyVertices: number;         // Padded vertices without a participant
+  fits: boolean;                 // False when there are more participants than vertices
+  occupants: (string | null)[];  // Participant ID per vertex, null where padded; empty when it does not fit
+  reason: string;
+}
+
+/**
+ * Selects shapes for participant counts and maps participants to vertices
+ */
+export class ShapeSelector {
+
+  /**
+   * Pick the shape for a keyword strength and context
+   *
+   * Among the shapes with that keyword (e.g. MUST_LOCAL), the smallest one
+   * that seats every participant and whose required agreement they can
+   * still reach wins; ties go to the earlier registered shape. If none can
+   * be reached, the smallest shape with room is used, and if none has room
+   * the largest is used, so the certificate fails and explains why.
+   */
+  select(participantIds: string[], strength: ConsensusStrength, context: GeometricShape['context']): ShapeSelection {
+    const keyword = `${strength}_${context.toUpperCase()}`;
+    const count = participantIds.length;
+    const candidates = getAllShapes()
+      .filter(shape => getConsensusKeyword(shape) === keyword)
+      .sort((a, b) => a.vertices - b.vertices);
+
+    if (candidates.length === 0) {
+      throw new Error(`No ${keyword} shape is registered`);
+    }
+
+    const withRoom = candidates.filter(shape => shape.vertices >= count);
+    const reachable = withRoom.find(shape => calculateRequiredAgreement(shape) <= count);
+
+    if (reachable) {
+      const reason = reachable.vertices === count
+        ? `${reachable.name} is the ${keyword} shape with exactly ${count} vertices`
+        : `${reachable.name} is the smallest ${keyword} shape with room for ${count} participants`;
+      return this.fit(participantIds, reachable, reason);
+    }
+
+    if (withRoom.length > 0) {
+      const shape = withRoom[0];
+      return this.fit(
+        participantIds,
+        shape,
+        `No ${keyword} shape can be satisfied by ${count} participants; ${shape.name} is the smallest with room`
+      );
+    }
+
+    const largest = candidates[candidates.length - 1];
+    return this.fit(
+      participantIds,
+      largest,
+      `No ${keyword} shape has room for ${count} participants; ${largest.name} is the largest`
+    );
+  }
+
+  /**
+   * Seat participants on a given shape
+   *
+   * Participants are placed in ID order, so every node derives the same
+   * mapping regardless of the order in which votes arrived. The reason is
+   * completed with the padding or rejection details.
+   */
+  fit(participantIds: string[], shape: GeometricShape, reason: string = `${shape.name} was requested`): ShapeSelection {
+    const count = participantIds.length;
+    const fits = count <= shape.vertices;
+    const emptyVertices = Math.max(0, shape.vertices - count);
+    const required = calculateRequiredAgreement(shape);
+
+    const details: string[] = [reason];
+    if (!fits) {
+      details.push(`rejected: ${count} participants do not fit its ${shape.vertices} vertices`);
+    } else if (emptyVertices > 0) {
+      details.push(`${emptyVertices} of ${shape.vertices} vertices stay empty and count as not agreeing`);
+      if (required > count) {
+        details.push(`${required} agreeing votes are required, so consensus is out of reach`);
+      }
+    }
+
+    const occupants = fits
+      ? [...this.sortIds(participantIds), ...new Array<null>(emptyVertices).fill(null)]
+      : [];
+
+    return {
+      shapeType: shape.type,
+      participantCount: count,
+      vertexCount: shape.vertices,
+      emptyVertices,
+      fits,
+      occupants,
+      reason: details.join('; ')
+    };
+  }
+
+  /**
+   * Sort IDs by code unit, independent of locale
+   */
+  private sortIds(ids: string[]): string[] {
+    return [...ids].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Vote Values and Delegation
+ *
+ * Resolves every ballot to agree, disagree, abstain or veto. A ballot that
+ * delegates adopts the resolved vote of its delegate, following chains of
+ * delegation; a chain that loops or points outside the vote ends in an
+ * abstention. The same evaluation issues certificates and re-checks them:
+ * - abstentions either stay in the denominator (as non-agreement) or are
+ *   excluded from it
+ * - a veto blocks every MUST_* keyword outright and is a vote against
+ *   under any other keyword
+ */
+
+import {
+  GeometricShape,
+  WeightTotals,
+  calculateRequiredAgreement,
+  calculateWeightTotals,
+  getConsensusKeyword,
+  isValidForConsensus,
+  isValidForWeightedConsensus
+} from './geometric-types.js';
+
+export type VoteValue = 'agree' | 'disagree' | 'abstain' | 'veto';
+
+export const VOTE_VALUES: readonly VoteValue[] = ['agree', 'disagree', 'abstain', 'veto'];
+
+export type AbstentionRule = 'count' | 'exclude';  // Abstentions stay in, or are removed from, the denominator
+
+export interface Ballot {
+  id: string;
+  agrees: boolean;
+  vote?: VoteValue;     // Overrides agrees when set
+  delegateTo?: string;  // Ballot ID whose resolved vote this one adopts; overrides the own vote
+  weight?: number;
+}
+
+export interface ResolvedVotes {
+  values: VoteValue[];                  // Resolved vote per ballot, in input order
+  delegations: Record<string, string>;  // Delegating ballot → ballot whose vote it adopted
+  unresolved: string[];                 // Delegations ending in a cycle or unknown ballot
+}
+
+export interface VoteTally {
+  agree: number;                        // Ballots per resolved vote
+  disagree: number;
+  abstain: number;
+  veto: number;
+  abstentions: AbstentionRule;
+  vetoedBy: string[];                   // Ballots resolving to a veto
+  delegations: Record<string, string>;  // Delegating ballot → ballot whose vote it adopted
+  unresolved: string[];                 // Delegations ending in a cycle or unknown ballot, counted as abstentions
+}
+
+export interface VoteEvaluation {
+  values: VoteValue[];         // Resolved vote per ballot, in input order
+  tally: VoteTally;
+  agreesCount: number;
+  requiredCount: number;
+  weightTotals?: WeightTotals;
+  vetoed: boolean;             // A veto blocked a MUST keyword
+  valid: boolean;
+}
+
+export interface VoteEvaluationOptions {
+  abstentions?: AbstentionRule;  // Defaults to 'count'
+  weighted?: boolean;            // Apply the threshold to total weight
+}
+
+/**
+ * The vote a ballot casts itself, ignoring delegation
+ */
+export function ownVote(ballot: Pick<Ballot, 'agrees' | 'vote'>): VoteValue {
+  return ballot.vote ?? (ballot.agrees ? 'agree' : 'disagree');
+}
+
+/**
+ * Resolve delegation chains
+ *
+ * Each ballot follows delegateTo until it reaches a ballot that does not
+ * delegate and takes that ballot's own vote. Revisiting a ballot (a cycle,
+ * including self-delegation) or delegating to an ID without a ballot
+ * leaves the delegation unresolved, and the ballot abstains.
+ */
+export function resolveVotes(ballots: Ballot[]): ResolvedVotes {
+  const byId = new Map(ballots.map(ballot => [ballot.id, ballot]));
+  const delegations: Record<string, string> = {};
+  const unresolved: string[] = [];
+
+  const values = ballots.map(ballot => {
+    const seen = new Set([ballot.id]);
+    let current = ballot;
+
+    while (current.delegateTo !== undefined) {
+      const next = byId.get(current.delegateTo);
+      if (!next || seen.has(next.id)) {
+        unresolved.push(ballot.id);
+        return 'abstain';
+      }
+      seen.add(next.id);
+      current = next;
+    }
+
+    const value = ownVote(current);
+    if (!VOTE_VALUES.includes(value)) {
+      throw new Error(`Unknown vote value ${value} for ${current.id}`);
+    }
+    if (current !== ballot) {
+      delegations[ballot.id] = current.id;
+    }
+    return value;
+  });
+
+  return { values, delegations, unresolved };
+}
+
+/**
+ * Whether a veto blocks consensus on a shape
+ */
+export function isVetoed(shape: GeometricShape, tally: VoteTally): boolean {
+  return tally.veto > 0 && getConsensusKeyword(shape).startsWith('MUST_');
+}
+
+/**
+ * Evaluate ballots on a shape
+ *
+ * Consensus needs at least one agreeing ballot, the threshold met on head
+ * count (or weight), no blocking veto, and no more ballots than vertices.
+ */
+export function evaluateVotes(
+  shape: GeometricShape,
+  ballots: Ballot[],
+  options: VoteEvaluationOptions = {}
+): VoteEvaluation {
+  const abstentions = options.abstentions ?? 'count';
+  const { values, delegations, unresolved } = resolveVotes(ballots);
+  const count = (value: VoteValue) => values.filter(v => v === value).length;
+
+  const tally: VoteTally = {
+    agree: count('agree'),
+    disagree: count('disagree'),
+    abstain: count('abstain'),
+    veto: count('veto'),
+    abstentions,
+    vetoedBy: ballots.filter((_, i) => values[i] === 'veto').map(ballot => ballot.id),
+    delegations,
+    unresolved
+  };
+
+  const excluded = abstentions === 'exclude' ? tally.abstain : 0;
+  const requiredCount = calculateRequiredAgreement(shape, excluded);
+  const vetoed = isVetoed(shape, tally);
+
+  const weightTotals = options.weighted
+    ? calculateWeightTotals(shape, ballots.map((ballot, i) => ({
+      id: ballot.id,
+      agrees: values[i] === 'agree',
+      weight: ballot.weight,
+      abstains: abstentions === 'exclude' && values[i] === 'abstain'
+    })))
+    : undefined;
+
+  const meetsThreshold = weightTotals
+    ? isValidForWeightedConsensus(shape, weightTotals, ballots.length)
+    : isValidForConsensus(shape, tally.agree, ballots.length, excluded);
+
+  return {
+    values,
+    tally,
+    agreesCount: tally.agree,
+    requiredCount,
+    weightTotals,
+    vetoed,
+    valid: tally.agree > 0 && meetsThreshold && !vetoed
+  };
+}
@@ -1,4 +1,9 @@
 import { BettiCalculator, Vertex, Edge, BettiNumbers } from '../phase1-geometric-consensus/betti-numbers.js';
+import { PersistenceCalculator, FiltrationEdge, voteSimilarityFiltration } from '../phase1-geometric-consensus/persistent-homology.js';
+import { PartitionDetector } from '../phase1-geometric-consensus/partition-detection.js';
+import { DynamicConnectivity } from '../phase1-geometric-consensus/connectivity.js';
+import { getPolytope, validatePolytope } from '../phase1-geometric-consensus/polytope-combinatorics.js';
+import { GeometricType, GEOMETRIC_SHAPES } from '../phase1-geometric-consensus/geometric-types.js';
 
 /**
  * Test suite for Betti number calculations and partition detection.
@@ -251,6 +256,195 @@ export function testBettiNumbers(): boolean {
            calculator.countPartitions(betti3) === 2;
   });
 
+  // Helper to create unconnected vertices for simplicial complexes
+  const makeVertices = (count: number): Vertex[] =>
+    Array.from({ length: count }, (_, i) => ({ id: `v${i}`, name: `Vertex ${i}`, connected: new Set<string>() }));
+
+  // Test 16: Filled tetrahedron has no holes
+  runTest('Filled tetrahedron', () => {
+    const complex = calculator.buildSimplicialComplex('TETRAHEDRON', makeVertices(4));
+    const betti = calculator.calculateBettiNumbers(complex.vertices, complex.edges, complex.faces, [[0, 1, 2, 3]]);
+    return betti.beta_0 === 1 && betti.beta_1 === 0 && betti.beta_2 === 0;
+  });
+
+  // Test 17: Hollow octahedron encloses one void
+  runTest('Hollow octahedron', () => {
+    const complex = calculator.buildSimplicialComplex('OCTAHEDRON', makeVertices(6));
+    const betti = calculator.calculateComplexBettiNumbers(complex);
+    return betti.beta_0 === 1 && betti.beta_1 === 0 && betti.beta_2 === 1;
+  });
+
+  // Test 18: Triangles fill cycles, edges of faces are implied
+  runTest('Faces fill cycles', () => {
+    const vertices = makeVertices(4);
+    // Square 0-1-2-3 with one triangle: the other half stays a hole
+    const halfFilled = calculator.calculateBettiNumbers(vertices, [], [[0, 1, 2]]);
+    const square = calculator.calculateBettiNumbers(vertices, [
+      { id: 'e1', from: 'v0', to: 'v1' },
+      { id: 'e2', from: 'v1', to: 'v2' },
+      { id: 'e3', from: 'v2', to: 'v3' },
+      { id: 'e4', from: 'v3', to: 'v0' }
+    ], [[0, 1, 2]]);
+    const filled = calculator.calculateBettiNumbers(vertices, [], [[0, 1, 2], [0, 2, 3]]);
+    return halfFilled.beta_0 === 2 && halfFilled.beta_1 === 0 &&
+           square.beta_0 === 1 && square.beta_1 === 1 && square.beta_2 === 0 &&
+           filled.beta_0 === 1 && filled.beta_1 === 0 && filled.beta_2 === 0;
+  });
+
+  // Test 19: Triangulated cube surface is a sphere
+  runTest('Cube surface homology', () => {
+    const complex = calculator.buildSimplicialComplex('CUBE', makeVertices(8));
+    const betti = calculator.calculateComplexBettiNumbers(complex);
+    return betti.beta_0 === 1 && betti.beta_1 === 0 && betti.beta_2 === 1;
+  });
+
+  const persistence = new PersistenceCalculator();
+
+  // Test 20: Square with late diagonals: the cycle is born, then filled
+  runTest('Persistence barcode of a square', () => {
+    const ids = ['a', 'b', 'c', 'd'];
+    const edges: FiltrationEdge[] = [
+      { from: 'a', to: 'b', value: 1 }, { from: 'b', to: 'c', value: 1 },
+      { from: 'c', to: 'd', value: 1 }, { from: 'd', to: 'a', value: 1 },
+      { from: 'a', to: 'c', value: 2 }, { from: 'b', to: 'd', value: 2 }
+    ];
+    const barcode = persistence.computeBarcode(ids, edges);
+    const atOne = persistence.bettiAt(barcode, 1.5);
+    const atTwo = persistence.bettiAt(barcode, 2);
+
+    return barcode.beta_0.length === 4 &&
+           barcode.beta_0[0].death === Infinity &&
+           barcode.beta_0.slice(1).every(i => i.birth === 0 && i.death === 1) &&
+           barcode.beta_1.length === 1 && barcode.beta_1[0].birth === 1 && barcode.beta_1[0].death === 2 &&
+           atOne.beta_0 === 1 && atOne.beta_1 === 1 &&
+           atTwo.beta_0 === 1 && atTwo.beta_1 === 0;
+  });
+
+  // Test 21: Cycles that are never filled persist forever
+  runTest('Unfilled cycle persists', () => {
+    const barcode = persistence.computeBarcode(['a', 'b', 'c', 'd'], [
+      { from: 'a', to: 'b', value: 0.1 }, { from: 'b', to: 'c', value: 0.2 },
+      { from: 'c', to: 'd', value: 0.3 }, { from: 'd', to: 'a', value: 0.4 }
+    ]);
+    return barcode.beta_1.length === 1 && barcode.beta_1[0].birth === 0.4 && barcode.beta_1[0].death === Infinity;
+  });
+
+  // Test 22: Two tight clusters bridged by one weak link are about to split
+  runTest('Split risk from weak bridge', () => {
+    const detector = new PartitionDetector();
+    const ids = ['a1', 'a2', 'a3', 'b1', 'b2', 'b3'];
+    const strong: FiltrationEdge[] = [
+      { from: 'a1', to: 'a2', value: 0.1 }, { from: 'a2', to: 'a3', value: 0.1 }, { from: 'a1', to: 'a3', value: 0.1 },
+      { from: 'b1', to: 'b2', value: 0.1 }, { from: 'b2', to: 'b3', value: 0.1 }, { from: 'b1', to: 'b3', value: 0.1 }
+    ];
+    const weakBridge = detector.assessSplitRisk(ids, [...strong, { from: 'a3', to: 'b1', value: 0.9 }], 0.5);
+    const strongBridge = detector.assessSplitRisk(ids, [...strong, { from: 'a3', to: 'b1', value: 0.2 }], 0.5);
+    const split = detector.assessSplitRisk(ids, strong, 0.5);
+
+    return weakBridge.aboutToSplit && !weakBridge.isPartitioned &&
+           weakBridge.criticalScale === 0.9 && weakBridge.componentsAtThreshold === 2 &&
+           !strongBridge.aboutToSplit && strongBridge.componentsAtThreshold === 1 &&
+           split.isPartitioned && !split.aboutToSplit;
+  });
+
+  // Test 23: Components split and merge as edges are removed and added
+  runTest('Dynamic connectivity add and remove', () => {
+    const connectivity = new DynamicConnectivity(['a', 'b', 'c', 'd']);
+    connectivity.addEdge('a', 'b');
+    connectivity.addEdge('b', 'c');
+    connectivity.addEdge('c', 'a');
+    connectivity.addEdge('c', 'd');
+    const joined = connectivity.componentCount() === 1;
+
+    const cycleEdgeSplits = connectivity.removeEdge('a', 'b');  // a-c-b path remains
+    const bridgeSplits = connectivity.removeEdge('c', 'd');
+    const afterBridge = connectivity.componentCount() === 2 && !connectivity.connected('a', 'd');
+
+    connectivity.addEdge('d', 'a');
+    connectivity.removeVertex('c');
+
+    return joined && !cycleEdgeSplits && bridgeSplits && afterBridge &&
+           connectivity.componentCount() === 2 &&
+           connectivity.connected('a', 'd') && !connectivity.connected('a', 'b') &&
+           connectivity.getComponents().map(c => Array.from(c).sort().join('')).join(',') === 'ad,b';
+  });
+
+  // Test 24: Long paths need neither an n×n matrix nor deep recursion
+  runTest('10k-vertex path graph', () => {
+    const count = 10000;
+    const vertices: Vertex[] = Array.from({ length: count }, (_, i) => ({ id: `p${i}`, name: `P${i}`, connected: new Set<string>() }));
+    const edges: Edge[] = Array.from({ length: count - 1 }, (_, i) => ({ id: `pe${i}`, from: `p${i}`, to: `p${i + 1}` }));
+    const betti = calculator.calculateBettiNumbers(vertices, edges);
+
+    const connectivity = new DynamicConnectivity(vertices.map(v => v.id));
+    edges.forEach(edge => connectivity.addEdge(edge.from, edge.to));
+    const split = connectivity.removeEdge('p4999', 'p5000');
+
+    return betti.beta_0 === 1 && betti.beta_1 === 0 && split && connectivity.componentCount() === 2;
+  });
+
+  // Test 25: Every shape's generated polytope matches its definition
+  runTest('Polytope combinatorics for all shapes', () => {
+    return Object.values(GEOMETRIC_SHAPES).every(shape => {
+      const polytope = getPolytope(shape.type);
+      return polytope.coordinates.length === shape.vertices &&
+             polytope.edges.length === shape.edges &&
+             polytope.faces.length === shape.faces &&
+             validatePolytope(shape, polytope).length === 0;
+    });
+  });
+
+  // Test 26: Polyhedron surfaces are spheres with the right vertex degree
+  runTest('Icosahedron and snub dodecahedron surfaces', () => {
+    const icosahedron = calculator.buildSimplicialComplex('ICOSAHEDRON', makeVertices(12));
+    const degrees = icosahedron.vertices.map(v => icosahedron.edges.filter(e => e.from === v.id || e.to === v.id).length);
+    const icosahedronBetti = calculator.calculateComplexBettiNumbers(icosahedron);
+    const snub = calculator.calculateComplexBettiNumbers(calculator.buildSimplicialComplex('SNUB_DODECAHEDRON', makeVertices(60)));
+    return degrees.every(d => d === 5) &&
+           icosahedronBetti.beta_0 === 1 && icosahedronBetti.beta_1 === 0 && icosahedronBetti.beta_2 === 1 &&
+           snub.beta_0 === 1 && snub.beta_1 === 0 && snub.beta_2 === 1;
+  });
+
+  // Test 27: A 4D polytope's boundary is a 3-sphere, so it has no void
+  runTest('24-cell boundary complex', () => {
+    const complex = calculator.buildSimplicialComplex('TWENTY_FOUR_CELL', makeVertices(24));
+    const betti = calculator.calculateComplexBettiNumbers(complex);
+    const polytope = getPolytope(GeometricType.TWENTY_FOUR_CELL);
+    return complex.edges.length === 96 && polytope.cells.length === 24 &&
+           polytope.cells.every(cell => cell.length === 6) &&  // Octahedral cells
+           betti.beta_0 === 1 && betti.beta_1 === 0 && betti.beta_2 === 0;
+  });
+
+  // Test 28: Fewer vertices use part of the shape; more cannot be placed
+  runTest('Partial shape placement', () => {
+    const triangle = calculator.buildSimplicialComplex('TETRAHEDRON', makeVertices(3));
+    const betti = calculator.calculateComplexBettiNumbers(triangle);
+    let rejected = false;
+    try {
+      calculator.buildSimplicialComplex('CUBE', makeVertices(9));
+    } catch (error) {
+      rejected = true;
+    }
+    return triangle.edges.length === 3 && triangle.faces.length === 1 &&
+           betti.beta_0 === 1 && betti.beta_1 === 0 && rejected;
+  });
+
+  // Test 29: Vote similarity compares resolved votes, not raw agrees flags
+  runTest('Vote similarity follows delegation, abstention and veto', () => {
+    const edges = voteSimilarityFiltration([
+      { id: 'a', name: 'A', agrees: true },
+      { id: 'b', name: 'B', agrees: false, delegateTo: 'a' },
+      { id: 'c', name: 'C', agrees: false, vote: 'abstain' },
+      { id: 'd', name: 'D', agrees: false, vote: 'veto' },
+      { id: 'e', name: 'E', agrees: false }
+    ]);
+    const distance = (from: string, to: string) => edges.find(edge => edge.from === from && edge.to === to)?.value;
+
+    return distance('a', 'b') === 0 &&  // b adopts a's agreement
+           distance('c', 'e') === 1 &&  // Abstaining is not disagreeing
+           distance('d', 'e') === 1;    // Nor is a veto
+  });
+
   console.log(`\nBetti Numbers Tests: ${testsPassed}/${testsTotal} passed`);
   return testsPassed === testsTotal;
 }
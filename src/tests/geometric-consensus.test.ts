@@ -1,5 +1,25 @@
 import { GeometricConsensus, DecisionVertex } from '../phase1-geometric-consensus/geometric-consensus.js';
-import { GeometricType } from '../phase1-geometric-consensus/geometric-types.js';
+import {
+  GeometricType,
+  GeometricShape,
+  GEOMETRIC_SHAPES,
+  validateShapeRegistry,
+  registerShape,
+  unregisterShape,
+  getGeometricShape,
+  getSuitableShapes,
+  getConsensusKeyword,
+  getDual,
+  hasShape
+} from '../phase1-geometric-consensus/geometric-types.js';
+import { ConsensusSession, SessionEvent } from '../phase1-geometric-consensus/consensus-session.js';
+import { PartitionDetector } from '../phase1-geometric-consensus/partition-detection.js';
+import { clusterOpinions } from '../phase1-geometric-consensus/opinion-clusters.js';
+import { DualPartitionRecovery } from '../phase1-geometric-consensus/dual-recovery.js';
+import { getPolytope, hasPolytope } from '../phase1-geometric-consensus/polytope-combinatorics.js';
+import { verifyCertificate, signCertificate } from '../phase1-geometric-consensus/certificate-integrity.js';
+import { generateSigningKeyPair } from '../crypto/signatures.js';
+import { InMemoryKeyRegistry } from '../crypto/key-registry.js';
 
 /**
  * Test suite for the Geometric Consensus system.
@@ -210,6 +230,636 @@ export function testGeometricConsensus(): boolean {
     return !isNaN(timestamp.getTime()) && timestamp <= new Date();
   });
 
+  // Test 16: Signed certificate verifies offline
+  const issuerKeys = generateSigningKeyPair();
+  const signedConsensus = new GeometricConsensus({ issuer: { id: 'issuer', signingKeys: issuerKeys } });
+  const unanimousVotes: DecisionVertex[] = [
+    { id: 'node1', name: 'Node 1', agrees: true },
+    { id: 'node2', name: 'Node 2', agrees: true },
+    { id: 'node3', name: 'Node 3', agrees: true },
+    { id: 'node4', name: 'Node 4', agrees: true }
+  ];
+
+  runTest('Signed certificate verifies offline', () => {
+    const { certificate } = signedConsensus.mustLocal(unanimousVotes);
+    const result = verifyCertificate(certificate, { issuer: issuerKeys.publicKey });
+    return result.valid && result.trustedSigners.includes('issuer') && !!certificate.contentHash;
+  });
+
+  // Test 17: Coordinated edit of vertices and agreesCount is detected
+  runTest('Edited certificate fails verification', () => {
+    const { certificate } = signedConsensus.mustLocal([
+      ...unanimousVotes.slice(0, 3),
+      { id: 'node4', name: 'Node 4', agrees: false }
+    ]);
+    const forged = {
+      ...certificate,
+      vertices: certificate.vertices.map(v => ({ ...v, agrees: true })),
+      agreesCount: 4,
+      valid: true
+    };
+    const result = verifyCertificate(forged, { issuer: issuerKeys.publicKey });
+
+    // A certificate received without its shape fails instead of throwing
+    const shapeless = verifyCertificate({ ...certificate, shape: undefined as unknown as GeometricShape }, {});
+
+    return !result.valid && !result.hashValid && result.mathValid &&
+           !shapeless.valid && !shapeless.mathValid;
+  });
+
+  // Test 18: Untrusted issuer key is rejected
+  runTest('Untrusted issuer is rejected', () => {
+    const { certificate } = signedConsensus.mustLocal(unanimousVotes);
+    const result = verifyCertificate(certificate, { issuer: generateSigningKeyPair().publicKey });
+    return !result.valid && result.hashValid && result.trustedSigners.length === 0;
+  });
+
+  // Test 19: Vertex co-signatures must cover every agreeing vertex
+  runTest('Vertex co-signatures cover agreeing vertices', () => {
+    const vertexKeys = unanimousVotes.map(() => generateSigningKeyPair());
+    const trusted: Record<string, string> = {};
+    let { certificate } = consensus.mustLocal(unanimousVotes);
+
+    unanimousVotes.slice(0, 3).forEach((vertex, i) => {
+      trusted[vertex.id] = vertexKeys[i].publicKey;
+      certificate = signCertificate(certificate, vertex.id, 'vertex', vertexKeys[i].publicKey, vertexKeys[i].privateKey);
+    });
+    const partial = verifyCertificate(certificate, trusted);
+
+    trusted.node4 = vertexKeys[3].publicKey;
+    certificate = signCertificate(certificate, 'node4', 'vertex', vertexKeys[3].publicKey, vertexKeys[3].privateKey);
+    const complete = verifyCertificate(certificate, trusted, { requireVertexSignatures: true });
+
+    return !partial.valid && complete.valid && complete.trustedSigners.length === 4;
+  });
+
+  // Test 20: Sealed certificate fails local validation after tampering
+  runTest('validateCertificate checks content hash', () => {
+    const { certificate } = consensus.mustLocal(unanimousVotes);
+    const tampered = { ...certificate, proof: 'trust me' };
+    return consensus.validateCertificate(certificate) && !consensus.validateCertificate(tampered);
+  });
+
+  // Test 21: Key registry drops unknown and revoked vertices
+  runTest('Key registry drops unregistered vertices', () => {
+    const registry = new InMemoryKeyRegistry();
+    unanimousVotes.forEach(v => registry.register(v.id, generateSigningKeyPair().publicKey));
+    registry.revoke('node4');
+
+    const registeredConsensus = new GeometricConsensus({ keyRegistry: registry });
+    const result = registeredConsensus.mustLocal([
+      ...unanimousVotes,
+      { id: 'intruder', name: 'Intruder', agrees: true }
+    ]);
+
+    return !result.success &&
+           result.certificate.agreesCount === 3 &&
+           result.certificate.vertices.length === 3 &&
+           result.certificate.excludedVertices?.join(',') === 'node4,intruder';
+  });
+
+  // Test 22: Certificate IDs are content-addressed
+  runTest('Certificate IDs are reproducible', () => {
+    const first = consensus.mustLocal(unanimousVotes).certificate;
+    const second = consensus.mustLocal(unanimousVotes).certificate;
+    const other = consensus.shouldLocal(unanimousVotes).certificate;
+    return first.certificateId === second.certificateId && first.certificateId !== other.certificateId;
+  });
+
+  // Test 23: Betti numbers follow the shape's edges, not a complete graph
+  runTest('Certificate topology uses the shape geometry', () => {
+    // Cube vertices 0 and 7 are opposite corners; the other six form a ring
+    const votes: DecisionVertex[] = Array.from({ length: 8 }, (_, i) => ({
+      id: `node${i}`,
+      name: `Node ${i}`,
+      agrees: i !== 0 && i !== 7
+    }));
+    const { bettiNumbers, partitionInfo } = consensus.verifyConsensus(votes, GeometricType.CUBE, 'Cube').certificate;
+    const icosahedronVotes: DecisionVertex[] = Array.from({ length: 12 }, (_, i) => ({ id: `node${i}`, name: `Node ${i}`, agrees: true }));
+    const unanimous = consensus.verifyConsensus(icosahedronVotes, GeometricType.ICOSAHEDRON, 'Icosahedron').certificate;
+
+    // Unanimous votes cover the whole icosahedron surface, enclosing one void
+    return bettiNumbers?.beta_0 === 3 && bettiNumbers.beta_1 === 1 && partitionInfo?.partitionCount === 1 &&
+           unanimous.bettiNumbers?.beta_0 === 1 && unanimous.bettiNumbers.beta_1 === 0 && unanimous.bettiNumbers.beta_2 === 1;
+  });
+
+  // Test 24: Shape registry passes its self-check; inconsistencies are reported
+  runTest('Shape registry consistency', () => {
+    const broken = {
+      ...GEOMETRIC_SHAPES,
+      [GeometricType.SIX_HUNDRED_CELL]: { ...GEOMETRIC_SHAPES.SIX_HUNDRED_CELL, dual: GeometricType.SIX_HUNDRED_CELL },
+      [GeometricType.EIGHT_CELL]: { ...GEOMETRIC_SHAPES.EIGHT_CELL, vertices: 8 }
+    };
+    const errors = validateShapeRegistry(broken);
+    const eightCell = GEOMETRIC_SHAPES.EIGHT_CELL.fVector;
+    const sixteenCell = GEOMETRIC_SHAPES.SIXTEEN_CELL.fVector;
+
+    return validateShapeRegistry(GEOMETRIC_SHAPES).length === 0 &&
+           errors.some(e => e.startsWith('600-cell: isSelfDual')) &&
+           errors.some(e => e.startsWith('8-cell: vertices/edges/faces')) &&
+           eightCell.slice(0, 4).reverse().join(',') === sixteenCell.slice(0, 4).join(',');
+  });
+
+  // Test 25: Custom shapes are validated, then used like built-in ones
+  runTest('Custom shape registration', () => {
+    const heptagon: GeometricShape = {
+      type: 'HEPTAGON',
+      name: 'Board heptagon',
+      vertices: 7,
+      edges: 7,
+      faces: 1,
+      fVector: [7, 7, 1],
+      threshold: 0.714,  // 5/7
+      dual: 'HEPTAGON',
+      isSelfDual: true,
+      dimension: 2,
+      context: 'local',
+      description: '7-member board quorum'
+    };
+    const rejects = (shape: GeometricShape) => {
+      try {
+        registerShape(shape);
+        return false;
+      } catch (error) {
+        return true;
+      }
+    };
+
+    const invalid = rejects({ ...heptagon, type: 'BAD_EULER', dual: 'BAD_EULER', fVector: [7, 8, 1], edges: 8 }) &&
+                    rejects({ ...heptagon, type: 'BAD_THRESHOLD', dual: 'BAD_THRESHOLD', threshold: 1.5 }) &&
+                    rejects({ ...heptagon, type: 'BAD_DUAL', dual: GeometricType.CUBE, isSelfDual: false }) &&
+                    rejects({ ...heptagon, type: GeometricType.CUBE, dual: GeometricType.CUBE }) &&
+                    rejects({ ...heptagon, type: 'NO_FVECTOR', dual: 'NO_FVECTOR', fVector: undefined as unknown as number[] }) &&
+                    rejects({ ...heptagon, type: 'BAD_CONTEXT', dual: 'BAD_CONTEXT', context: 'planet' as GeometricShape['context'] });
+
+    // Object prototype members are not shapes
+    const prototypeNames = ['toString', 'constructor', '__proto__'].every(name => {
+      try {
+        getGeometricShape(name);
+        return false;
+      } catch (error) {
+        return !hasShape(name);
+      }
+    });
+
+    registerShape(heptagon);
+    try {
+      const duplicate = rejects(heptagon);
+      const votes: DecisionVertex[] = Array.from({ length: 7 }, (_, i) => ({ id: `m${i}`, name: `Member ${i}`, agrees: i < 5 }));
+      const result = consensus.verifyConsensus(votes, 'HEPTAGON', 'Board vote');
+      const partition = new PartitionDetector().detectViaBettiNumbers(votes);
+
+      return invalid && duplicate && prototypeNames &&
+             getSuitableShapes(7)[0].type === 'HEPTAGON' &&
+             getConsensusKeyword(getGeometricShape('HEPTAGON')) === 'MAY_LOCAL' &&
+             result.success && result.certificate.requiredCount === 5 &&
+             result.certificate.bettiNumbers?.beta_0 === 2 &&  // Agreeing arc and dissenting arc of the ring
+             partition.originalGeometricType === 'HEPTAGON';
+    } finally {
+      unregisterShape('HEPTAGON');
+    }
+  });
+
+  // Test 26: Votes must fit the shape; fewer votes leave vertices empty
+  runTest('Vote count is checked against the shape', () => {
+    const fiveVotes: DecisionVertex[] = Array.from({ length: 5 }, (_, i) => ({ id: `node${i}`, name: `Node ${i}`, agrees: true }));
+    const rejected = consensus.mustLocal(fiveVotes);  // 5 voters, 4-vertex tetrahedron
+    const forged = { ...rejected.certificate, valid: true };
+    const padded = consensus.mayLocal(fiveVotes).certificate;
+
+    return !rejected.success && rejected.certificate.agreesCount === 5 &&
+           rejected.certificate.selection?.fits === false &&
+           rejected.certificate.proof.includes('do not fit') &&
+           consensus.validateCertificate(rejected.certificate) &&
+           !verifyCertificate(forged, {}).mathValid &&
+           padded.valid && padded.selection?.emptyVertices === 3 &&
+           padded.selection.occupants.slice(5).every(occupant => occupant === null);
+  });
+
+  // Test 27: Shapes are selected by participant count and keyword
+  runTest('Automatic shape selection', () => {
+    const votes = (count: number, agreeing: number): DecisionVertex[] =>
+      Array.from({ length: count }, (_, i) => ({ id: `p${i}`, name: `Participant ${i}`, agrees: i < agreeing }));
+
+    const federation = consensus.verifyWithSelectedShape(votes(5, 5), 'MUST', 'federation');
+    const local = consensus.verifyWithSelectedShape(votes(10, 9), 'MAY', 'local');
+    const reordered = consensus.verifyWithSelectedShape(votes(10, 9).reverse(), 'MAY', 'local');
+    const tooMany = consensus.verifyWithSelectedShape(votes(5, 5), 'MUST', 'local');
+    const inferred = new PartitionDetector().detectViaBettiNumbers(votes(10, 9)).originalGeometricType;
+
+    return federation.success && federation.certificate.geometricType === GeometricType.FIVE_CELL &&
+           local.success && local.certificate.geometricType === GeometricType.ICOSAHEDRON &&
+           local.certificate.requiredCount === 9 && local.certificate.selection?.emptyVertices === 2 &&
+           reordered.certificate.selection?.occupants.join() === local.certificate.selection.occupants.join() &&
+           !tooMany.success && tooMany.certificate.geometricType === GeometricType.TETRAHEDRON &&
+           tooMany.certificate.selection?.reason.startsWith('No MUST_LOCAL shape has room for 5 participants') === true &&
+           inferred === GeometricType.ICOSAHEDRON;
+  });
+
+  // Test 28: Weighted mode applies the threshold to stake
+  runTest('Weighted consensus', () => {
+    const weightedConsensus = new GeometricConsensus({ weighted: true });
+    const stakeholders = (agreeing: (i: number) => boolean): DecisionVertex[] =>
+      Array.from({ length: 8 }, (_, i) => ({ id: `s${i}`, name: `Stakeholder ${i}`, agrees: agreeing(i), weight: i < 2 ? 10 : undefined }));
+
+    // Two large stakeholders (10 each) against six with the default weight 1
+    const whales = weightedConsensus.mayLocal(stakeholders(i => i < 2)).certificate;
+    const crowd = weightedConsensus.mayLocal(stakeholders(i => i >= 2));
+    const unweighted = consensus.mayLocal(stakeholders(i => i >= 2));
+    const reweighted = { ...whales, contentHash: undefined, vertices: whales.vertices.map(v => ({ ...v, weight: 1 })) };
+    const negative = weightedConsensus.mayLocal([{ id: 'x', name: 'X', agrees: true, weight: -1 }]);
+
+    return whales.valid && whales.agreesCount === 2 &&
+           whales.weightTotals?.agreeing === 20 && whales.weightTotals.total === 26 && whales.weightTotals.required === 13 &&
+           whales.vertices.every(v => v.weight === (v.id === 's0' || v.id === 's1' ? 10 : 1)) &&
+           weightedConsensus.validateCertificate(whales) && verifyCertificate(whales, {}).mathValid &&
+           !weightedConsensus.validateCertificate(reweighted) &&
+           !crowd.success && crowd.certificate.agreesCount === 6 &&
+           unweighted.success && unweighted.certificate.weightTotals === undefined &&
+           !negative.success && negative.message.includes('Vote weight must be a non-negative number');
+  });
+
+  // Test 29: Abstentions, vetoes and delegation
+  runTest('Abstain, veto and delegated votes', () => {
+    const committee = (votes: Array<Partial<DecisionVertex>>): DecisionVertex[] =>
+      votes.map((vote, i) => ({ id: `m${i}`, name: `Member ${i}`, agrees: false, ...vote }));
+
+    // Three yes and one abstention on a unanimous tetrahedron
+    const abstaining = committee([{ agrees: true }, { agrees: true }, { agrees: true }, { vote: 'abstain' }]);
+    const excluding = new GeometricConsensus({ abstentions: 'exclude' });
+    const counted = consensus.mustLocal(abstaining);
+    const excluded = excluding.mustLocal(abstaining).certificate;
+    const relabelled = { ...excluded, contentHash: undefined, tally: excluded.tally && { ...excluded.tally, abstentions: 'count' as const } };
+
+    // A weightless veto would pass the weighted threshold, but blocks MUST
+    const vetoVotes = committee([{ agrees: true }, { agrees: true }, { agrees: true }, { vote: 'veto', weight: 0 }]);
+    const vetoed = new GeometricConsensus({ weighted: true }).mustLocal(vetoVotes);
+    const mayVeto = consensus.mayLocal(committee([...Array(6).fill({ agrees: true }), { vote: 'veto' }, {}]));
+
+    // m1 → m0 and m2 → m1 → m0 resolve to agree; m3 ↔ m4 is a cycle and abstains
+    const delegated = consensus.mayLocal(committee([
+      { agrees: true }, { delegateTo: 'm0' }, { delegateTo: 'm1' }, { delegateTo: 'm4' }, { delegateTo: 'm3' }, {}, {}, {}
+    ])).certificate;
+
+    return !counted.success && counted.certificate.tally?.abstain === 1 &&
+           excluded.valid && excluded.requiredCount === 3 && excluded.tally?.abstentions === 'exclude' &&
+           excluding.validateCertificate(excluded) && verifyCertificate(excluded, {}).mathValid &&
+           !excluding.validateCertificate(relabelled) &&
+           !vetoed.success && vetoed.certificate.weightTotals?.agreeing === 3 && vetoed.certificate.weightTotals.required === 3 &&
+           vetoed.message.startsWith('Consensus vetoed by m3') && vetoed.certificate.proof.includes('which blocks MUST_LOCAL') &&
+           mayVeto.success && mayVeto.certificate.tally?.vetoedBy.join() === 'm6' &&
+           delegated.agreesCount === 3 && !delegated.valid &&
+           delegated.tally?.delegations.m1 === 'm0' && delegated.tally.delegations.m2 === 'm0' &&
+           delegated.tally.unresolved.join() === 'm3,m4' && delegated.tally.abstain === 2;
+  });
+
+  // Test 30: Multi-round session with revisions and escalation
+  runTest('Consensus session escalates MAY to SHOULD to MUST', () => {
+    const participants = Array.from({ length: 6 }, (_, i) => ({ id: `p${i}`, name: `Participant ${i}` }));
+    const session = new ConsensusSession({
+      participants,
+      stages: [
+        { strength: 'MAY', context: 'local' },
+        { strength: 'SHOULD', context: 'local' },
+        { strength: 'MUST', context: 'local' }
+      ]
+    }, 0);
+    const events: SessionEvent[] = [];
+    session.onProgress(event => events.push(event));
+    const vote = (id: string, agrees: boolean, day: number) =>
+      session.castVote({ id, name: 'ignored', agrees }, day * 86400000);
+
+    // Cube: 4 of 8 needed; p3 first votes no, then revises
+    vote('p0', true, 1);
+    vote('p1', true, 1);
+    const partway = vote('p2', true, 2);
+    vote('p3', false, 2);
+    const revised = vote('p3', true, 3);
+    const mayRound = session.closeRound(4 * 86400000);
+
+    // Octahedron: ballots carry over, 5 of 6 needed
+    const carried = session.getProgress();
+    vote('p4', true, 5);
+    session.closeRound(6 * 86400000);
+
+    // No MUST_LOCAL shape seats six participants
+    const mustProgress = session.getProgress();
+    session.closeRound(7 * 86400000);
+
+    const final = session.getFinalCertificate();
+    let rejectsLateVote = false;
+    try {
+      vote('p5', true, 8);
+    } catch (error) {
+      rejectsLateVote = true;
+    }
+
+    return partway.message === 'needs 1 more for MAY_LOCAL' && partway.shapeType === 'CUBE' &&
+           revised.reached && mayRound.success &&
+           carried.keyword === 'SHOULD_LOCAL' && carried.votesCast === 0 && carried.agreesCount === 4 &&
+           carried.message === 'needs 1 more for SHOULD_LOCAL' &&
+           mustProgress.message.startsWith('cannot reach MUST_LOCAL') &&
+           session.isClosed() && rejectsLateVote && final !== undefined &&
+           final.geometricType === 'OCTAHEDRON' && final.valid &&
+           final.session?.rounds.map(r => r.valid).join() === 'true,true,false' &&
+           final.session.votes.length === 6 && final.session.votes[4].revision &&
+           final.session.votes[0].vertex.name === 'Participant 0' &&
+           final.certificateId === final.session.rounds[1].certificateId &&
+           consensus.validateCertificate(final) && verifyCertificate(final, {}).mathValid &&
+           events.map(e => e.type).join() ===
+             'vote,vote,vote,vote,revision,round_closed,escalated,vote,round_closed,escalated,round_closed,closed';
+  });
+
+  // Test 31: Partitions follow reachability, not votes
+  runTest('Split votes are not network partitions', () => {
+    const votes: DecisionVertex[] = ['a', 'b', 'c', 'd'].map(id => ({ id, name: id, agrees: id !== 'd' }));
+    const ring = { edges: [{ from: 'a', to: 'b' }, { from: 'b', to: 'c' }, { from: 'c', to: 'd' }, { from: 'd', to: 'a' }] };
+    const split = { edges: [{ from: 'a', to: 'b' }, { from: 'c', to: 'd' }, { from: 'a', to: 'x' }] };
+    const detector = new PartitionDetector();
+
+    const assumed = consensus.mayLocal(votes).certificate.partitionInfo;
+    const connected = new GeometricConsensus({ reachability: ring }).mayLocal(votes).certificate.partitionInfo;
+    const engine = new GeometricConsensus();
+    engine.setReachability(split);
+    const partitioned = engine.mayLocal(votes).certificate;
+    const detected = detector.detectViaBettiNumbers(votes, split);
+    const opinions = clusterOpinions(votes);
+
+    return assumed?.isPartitioned === false && assumed.partitionCount === 1 &&
+           connected?.isPartitioned === false &&
+           detector.detectViaBettiNumbers(votes, ring).bettiNumbers.beta_1 === 1 &&
+           !detector.detectViaBettiNumbers(votes).isPartitioned &&
+           partitioned.partitionInfo?.partitionCount === 2 && partitioned.bettiNumbers?.beta_0 === 2 &&
+           detected.isPartitioned && detected.partitionVertices.map(p => p.map(v => v.id).join()).join('|') === 'a,b|c,d' &&
+           detector.validatePartitionDetection(detected) &&
+           opinions.clusterCount === 2 && !opinions.unanimous &&
+           opinions.largest?.vote === 'agree' && opinions.clusters[1].vertexIds.join() === 'd';
+  });
+
+  // Test 32: Each partition is verified on its own decomposed shape
+  runTest('Per-partition consensus verification', () => {
+    const votes = (...dissenters: string[]): DecisionVertex[] =>
+      Array.from({ length: 8 }, (_, i) => ({ id: `n${i}`, name: `Node ${i}`, agrees: !dissenters.includes(`n${i}`) }));
+    const halves = {
+      edges: [
+        { from: 'n0', to: 'n1' }, { from: 'n1', to: 'n2' }, { from: 'n2', to: 'n3' },
+        { from: 'n4', to: 'n5' }, { from: 'n5', to: 'n6' }, { from: 'n6', to: 'n7' }
+      ]
+    };
+
+    const split = consensus.verifyPartitionAware(votes('n5', 'n6'), GeometricType.CUBE, halves);
+    const unanimous = consensus.verifyPartitionAware(votes(), GeometricType.CUBE, halves);
+    const whole = consensus.verifyPartitionAware(votes('n6'), GeometricType.CUBE);
+    const [left, right] = split.partitioned?.partitions ?? [];
+
+    // The whole cube passes 6/8, but the right half misses 3 of 4 on its square
+    return !split.certificate.valid && split.certificate.partitionInfo?.stands === false &&
+           verifyCertificate(split.certificate, {}).mathValid && !split.success && split.partitioned?.rule === 'every-partition' &&
+           !split.partitioned.stands && split.partitioned.partitions.length === 2 &&
+           left.decomposedType === GeometricType.SQUARE && left.vertexIds.join() === 'n0,n1,n2,n3' &&
+           left.result.success && !right.result.success && right.result.certificate.agreesCount === 2 &&
+           split.certificate.proof.includes('Partition 2 (n4, n5, n6, n7) on Square: 2/4 agree, need 3') &&
+           consensus.validateCertificate(split.certificate) &&
+           unanimous.success && unanimous.certificate.valid && unanimous.partitioned?.stands === true &&
+           whole.success && whole.partitioned === undefined;
+  });
+
+  // Test 33: Uneven partitions get shapes sized to each side
+  runTest('Uneven partition decomposition', () => {
+    const detector = new PartitionDetector();
+    const votes: DecisionVertex[] = Array.from({ length: 8 }, (_, i) => ({ id: `n${i}`, name: `Node ${i}`, agrees: true }));
+    const fiveThree = {
+      edges: [
+        { from: 'n0', to: 'n1' }, { from: 'n1', to: 'n2' }, { from: 'n2', to: 'n3' }, { from: 'n3', to: 'n4' },
+        { from: 'n5', to: 'n6' }, { from: 'n6', to: 'n7' }
+      ]
+    };
+    const info = detector.detectViaBettiNumbers(votes, fiveThree);
+    const impact = detector.analyzePartitionImpact(info);
+
+    // Every shape and piece size decomposes to a shape with room that is never weaker
+    const neverWeaker = Object.values(GEOMETRIC_SHAPES).every(shape =>
+      Array.from({ length: shape.vertices }, (_, i) => i + 1).every(size => {
+        const piece = getGeometricShape(detector.decomposeForComponent(shape.type, size));
+        return piece.vertices >= size && Math.ceil(piece.vertices * piece.threshold) >= Math.ceil(size * shape.threshold);
+      })
+    );
+
+    return info.originalGeometricType === GeometricType.CUBE &&
+           info.decomposedGeometricTypes?.join() === 'CUBE,SQUARE' &&
+           impact.requiredAgreementPerPartition.join() === '4,3' && impact.consensusPossible &&
+           detector.decomposeForComponent(GeometricType.TETRAHEDRON, 3) === GeometricType.TRIANGLE &&
+           detector.decomposeForComponent(GeometricType.TETRAHEDRON, 1) === GeometricType.POINT &&
+           detector.decomposeForComponent(GeometricType.FIVE_CELL, 2) === GeometricType.LINE &&
+           detector.decomposeGeometricType(GeometricType.CUBE, 2) === GeometricType.SQUARE &&
+           neverWeaker;
+  });
+
+  // Test 34: Only a strict quorum finalizes; other partitions stay provisional until healed
+  runTest('Split-brain guard with provisional certificates', () => {
+    const votes = (...dissenters: string[]): DecisionVertex[] =>
+      Array.from({ length: 5 }, (_, i) => ({ id: `n${i}`, name: `Node ${i}`, agrees: !dissenters.includes(`n${i}`) }));
+    const threeTwo = { edges: [{ from: 'n0', to: 'n1' }, { from: 'n1', to: 'n2' }, { from: 'n3', to: 'n4' }] };
+    const twoTwoOne = { edges: [{ from: 'n0', to: 'n1' }, { from: 'n2', to: 'n3' }] };
+    const healedRing = { edges: [0, 1, 2, 3, 4].map(i => ({ from: `n${i}`, to: `n${(i + 1) % 5}` })) };
+    const guarded = new GeometricConsensus({ partitionRule: 'strict-quorum' });
+
+    // Both sides are unanimous: every-partition lets both decide, strict-quorum only the majority side
+    const open = consensus.verifyPartitionAware(votes(), GeometricType.FIVE_CELL, threeTwo);
+    const split = guarded.verifyPartitionAware(votes(), GeometricType.FIVE_CELL, threeTwo);
+    const [majority, minority] = split.partitioned?.partitions ?? [];
+    const provisional = minority.result.certificate;
+    const noQuorum = guarded.verifyPartitionAware(votes(), GeometricType.FIVE_CELL, twoTwoOne);
+
+    const promoted = guarded.healProvisional(provisional, votes(), healedRing);
+    const rolledBack = guarded.healProvisional(provisional, votes('n0'), healedRing);
+    const rejects = (fn: () => unknown) => {
+      try {
+        fn();
+        return false;
+      } catch (error) {
+        return true;
+      }
+    };
+
+    return open.success && open.partitioned?.partitions.every(p => p.result.success && !p.result.certificate.provisional) === true &&
+           split.success && split.partitioned?.rule === 'strict-quorum' &&
+           majority.result.success && majority.result.certificate.provisional === undefined &&
+           !minority.result.success && provisional.valid && provisional.certificateId.startsWith('provisional-cert-') &&
+           provisional.provisional?.quorum === 3 && provisional.provisional.members === 2 &&
+           guarded.validateCertificate(provisional) && verifyCertificate(provisional, {}).hashValid &&
+           split.certificate.proof.includes('PROVISIONAL CONSENSUS') &&
+           !noQuorum.success && !noQuorum.certificate.valid && guarded.validateCertificate(noQuorum.certificate) &&
+           noQuorum.partitioned?.partitions.every(p => p.result.certificate.provisional) === true &&
+           promoted.action === 'promoted' && promoted.result.certificate.valid &&
+           promoted.result.certificate.geometricType === GeometricType.FIVE_CELL &&
+           promoted.result.certificate.supersedes === provisional.certificateId &&
+           rolledBack.action === 'rolled_back' && !rolledBack.result.success &&
+           rejects(() => guarded.healProvisional(provisional, votes(), threeTwo)) &&
+           rejects(() => guarded.healProvisional(majority.result.certificate, votes(), healedRing));
+  });
+
+  // Test 35: Recovery reconciles partition certificates before counting
+  runTest('Conflict-aware partition recovery', () => {
+    const recovery = new DualPartitionRecovery();
+    const side = (ids: string[], dissenters: string[], proposalId: string) => consensus.attachProposal(
+      consensus.verifyConsensus(
+        ids.map(id => ({ id, name: id, agrees: !dissenters.includes(id) })),
+        GeometricType.TETRAHEDRON,
+        `Proposal ${proposalId}`
+      ).certificate,
+      proposalId
+    );
+    const everyone = ['n0', 'n1', 'n2', 'n3', 'n4'];
+    const kinds = (result: { conflicts: Array<{ kind: string }> }) => result.conflicts.map(c => c.kind);
+
+    // n2 moved sides and voted on both: once in agreement, once against
+    const left = side(['n0', 'n1', 'n2'], [], 'p-1');
+    const right = side(['n2', 'n3', 'n4'], ['n2'], 'p-1');
+    const stale = side(['n0', 'n1', 'n3'], [], 'p-2');
+
+    const rejected = recovery.recoverFromPartition([left, right], GeometricType.FIVE_CELL, { participants: everyone });
+    const latest = recovery.recoverFromPartition([left, right, stale], GeometricType.FIVE_CELL, {
+      participants: everyone,
+      votePolicy: 'latest-vote-wins'
+    });
+
+    // Same vote on both sides is counted once; a missing participant does not agree
+    const repeat = side(['n2', 'n3'], [], 'p-1');
+    const deduped = recovery.recoverFromPartition([left, repeat], GeometricType.FIVE_CELL, { participants: everyone });
+
+    // One side passed and the other failed
+    const split = recovery.recoverFromPartition(
+      [side(['n0', 'n1', 'n2', 'n3'], [], 'p-3'), side(['n4'], ['n4'], 'p-3')],
+      GeometricType.FIVE_CELL
+    );
+
+    // A heavy dissenter outweighs three agreeing heads on a MAY cube
+    const weightedEngine = new GeometricConsensus({ weighted: true });
+    const weightedSide = (vertices: DecisionVertex[]) =>
+      weightedEngine.verifyConsensus(vertices, GeometricType.SQUARE, 'Proposal p-4').certificate;
+    const weighted = recovery.recoverFromPartition([
+      weightedSide([{ id: 'w0', name: 'w0', agrees: true }, { id: 'w1', name: 'w1', agrees: true }]),
+      weightedSide([{ id: 'w2', name: 'w2', agrees: false, weight: 5 }, { id: 'w3', name: 'w3', agrees: true }])
+    ], GeometricType.CUBE);
+
+    // The minority side of a strict-quorum split is provisional and stays out
+    const quorumSplit = new GeometricConsensus({ partitionRule: 'strict-quorum' }).verifyPartitionAware(
+      everyone.map(id => ({ id, name: id, agrees: true })),
+      GeometricType.FIVE_CELL,
+      { edges: [{ from: 'n0', to: 'n1' }, { from: 'n1', to: 'n2' }, { from: 'n3', to: 'n4' }] }
+    );
+    const withProvisional = recovery.recoverFromPartition(
+      (quorumSplit.partitioned?.partitions ?? []).map(partition => partition.result.certificate),
+      GeometricType.FIVE_CELL
+    );
+
+    return !rejected.success && !rejected.recoveredCertificate.valid &&
+           kinds(rejected).includes('vote_conflict') &&
+           latest.recoveredCertificate.vertices.length === 5 &&
+           latest.recoveredCertificate.proposalId === 'p-1' &&
+           latest.recoveredCertificate.vertices.find(v => v.id === 'n2')?.agrees === false &&
+           latest.recoveredCertificate.agreesCount === 4 &&
+           kinds(latest).includes('proposal_mismatch') && kinds(latest).includes('vote_conflict') &&
+           latest.recoveryProof.includes('vote_conflict (n2)') &&
+           deduped.recoveredCertificate.vertices.length === 4 &&
+           deduped.recoveredCertificate.agreesCount === 4 &&
+           kinds(deduped).includes('duplicate_vertex') && kinds(deduped).includes('missing_participant') &&
+           deduped.conflicts.find(c => c.kind === 'missing_participant')?.vertexId === 'n4' &&
+           kinds(split).includes('contradictory_outcome') && split.recoveredCertificate.agreesCount === 4 &&
+           !weighted.recoveredCertificate.valid && weighted.recoveredCertificate.agreesCount === 3 &&
+           weighted.recoveredCertificate.weightTotals?.total === 8 && weighted.recoveredCertificate.requiredCount === 4 &&
+           weighted.recoveryProof.includes('- Required Weight: 8 × 0.5 = 4') && !weighted.recoveryProof.includes('⌈') &&
+           latest.recoveryProof.includes('- Required Agreement: ⌈') &&
+           kinds(withProvisional).join() === 'provisional_certificate' &&
+           withProvisional.recoveredCertificate.vertices.map(v => v.id).join() === 'n0,n1,n2';
+  });
+
+  // Test 36: A custom shape named like an Object prototype member still works
+  runTest('Prototype-named custom shape', () => {
+    registerShape({
+      type: 'toString',
+      name: 'Prototype-named pentagon',
+      vertices: 5,
+      edges: 5,
+      faces: 1,
+      fVector: [5, 5, 1],
+      threshold: 0.6,
+      dual: 'toString',
+      isSelfDual: true,
+      dimension: 2,
+      context: 'local',
+      description: 'Pentagon registered under a prototype member name'
+    });
+    try {
+      const votes: DecisionVertex[] = Array.from({ length: 5 }, (_, i) => ({ id: `p${i}`, name: `P ${i}`, agrees: i < 3 }));
+      const result = consensus.verifyConsensus(votes, 'toString', 'Prototype-named vote');
+
+      return hasPolytope('toString') && getPolytope('toString').edges.length === 5 &&
+             result.success && result.certificate.requiredCount === 3;
+    } finally {
+      unregisterShape('toString');
+    }
+  });
+
+  // Test 37: A custom 120-cell pairs with the built-in 600-cell
+  runTest('Custom dual of a built-in shape', () => {
+    const oneTwentyCell: GeometricShape = {
+      type: 'ONE_TWENTY_CELL',
+      name: '120-cell',
+      vertices: 600,
+      edges: 1200,
+      faces: 720,
+      fVector: [600, 1200, 720, 120, 1],
+      threshold: 0.6,
+      dual: GeometricType.SIX_HUNDRED_CELL,
+      isSelfDual: false,
+      dimension: 4,
+      schlaefli: '{5,3,3}',
+      context: 'federation',
+      description: '4D 120-cell - dual of the 600-cell'
+    };
+    const sixHundredCell = getGeometricShape(GeometricType.SIX_HUNDRED_CELL);
+
+    registerShape(oneTwentyCell);
+    let linked: boolean;
+    try {
+      let secondRejected = false;
+      try {
+        registerShape({ ...oneTwentyCell, type: 'OTHER_120_CELL' });
+      } catch (error) {
+        secondRejected = true;
+      }
+      linked = getDual(getGeometricShape('ONE_TWENTY_CELL'))?.type === GeometricType.SIX_HUNDRED_CELL &&
+               getDual(sixHundredCell)?.type === 'ONE_TWENTY_CELL' &&
+               sixHundredCell.dual === undefined && secondRejected;
+    } finally {
+      unregisterShape('ONE_TWENTY_CELL');
+    }
+
+    return linked && getDual(sixHundredCell) === null;
+  });
+
+  // Test 38: Co-signature coverage follows resolved votes, not the agrees flag
+  runTest('Vertex co-signatures follow resolved votes', () => {
+    const vertexKeys = unanimousVotes.map(() => generateSigningKeyPair());
+    const trusted: Record<string, string> = {};
+    unanimousVotes.forEach((vertex, i) => { trusted[vertex.id] = vertexKeys[i].publicKey; });
+    const signedByFirstThree = (votes: DecisionVertex[]) => {
+      let { certificate } = consensus.mustLocal(votes);
+      votes.slice(0, 3).forEach((vertex, i) => {
+        certificate = signCertificate(certificate, vertex.id, 'vertex', vertexKeys[i].publicKey, vertexKeys[i].privateKey);
+      });
+      return verifyCertificate(certificate, trusted);
+    };
+
+    const delegated = signedByFirstThree([...unanimousVotes.slice(0, 3), { id: 'node4', name: 'Node 4', agrees: false, delegateTo: 'node1' }]);
+    const abstaining = signedByFirstThree([...unanimousVotes.slice(0, 3), { id: 'node4', name: 'Node 4', agrees: true, vote: 'abstain' }]);
+
+    return !delegated.valid && delegated.errors.some(e => e.includes('node4')) &&
+           abstaining.valid;
+  });
+
   console.log(`\nGeometric Consensus Tests: ${testsPassed}/${testsTotal} passed`);
   return testsPassed === testsTotal;
 }
@@ -0,0 +1,503 @@
+import { RemoteInfo } from 'dgram';
+import { ConsensusVote, GeometricProtocol, NetworkNode } from '../networking/geometric-protocol.js';
+import { GeometricType, GEOMETRIC_SHAPES, registerShape, unregisterShape } from '../phase1-geometric-consensus/geometric-types.js';
+import { generateSigningKeyPair } from '../crypto/signatures.js';
+import { canonicalize } from '../crypto/canonical.js';
+import { InMemoryKeyRegistry } from '../crypto/key-registry.js';
+import { contentId, uuidv7 } from '../crypto/ids.js';
+import { ReliableTransport } from '../networking/reliable-transport.js';
+import { FailureDetector } from '../networking/failure-detector.js';
+import { TopologyTracker } from '../networking/topology-tracker.js';
+import { ProposalLifecycle } from '../networking/proposal-lifecycle.js';
+import { EarlyVoteBuffer } from '../networking/early-vote-buffer.js';
+import { NetworkMessage, UDPGeometricServer } from '../networking/udp-server.js';
+
+/**
+ * Test suite for the Geometric Protocol message layer.
+ * Tests canonical encoding, message/vote signatures, key registry and proposal processing.
+ */
+export function testGeometricProtocol(): boolean {
+  console.log('Testing Geometric Protocol...');
+
+  const protocol = new GeometricProtocol();
+  const keys = generateSigningKeyPair();
+  const otherKeys = generateSigningKeyPair();
+  let testsPassed = 0;
+  let testsTotal = 0;
+
+  // Servers are never bound; messages are handed to them directly
+  const peerAddress: RemoteInfo = { address: '127.0.0.1', family: 'IPv4', port: 3000, size: 0 };
+  const createServer = (nodeId: string) => new UDPGeometricServer({
+    nodeId, host: '127.0.0.1', port: 0, maxMessageSize: 8192, timeout: 1000, retryAttempts: 1
+  });
+  const deliver = (server: UDPGeometricServer, message: NetworkMessage) =>
+    server['handleMessage'](message, peerAddress);
+
+  // Helper function to run a test
+  function runTest(testName: string, testFn: () => boolean): void {
+    testsTotal++;
+    try {
+      if (testFn()) {
+        console.log(`✅ ${testName}`);
+        testsPassed++;
+      } else {
+        console.log(`❌ ${testName}`);
+      }
+    } catch (error) {
+      console.log(`❌ ${testName} - Error: ${(error as Error).message}`);
+    }
+  }
+
+  // Test 1: Canonical encoding ignores key order
+  runTest('Canonical encoding ignores key order', () => {
+    const a = canonicalize({ b: 1, a: { d: [1, 2], c: 'x' } });
+    const b = canonicalize({ a: { c: 'x', d: [1, 2] }, b: 1 });
+    return a === b && a === '{"a":{"c":"x","d":[1,2]},"b":1}';
+  });
+
+  // Test 2: Signed message verifies
+  runTest('Signed message verifies', () => {
+    const message = protocol.createConsensusMessage('node1', 'node2', 'hello', GeometricType.TETRAHEDRON);
+    const signed = protocol.signMessage(message, keys.privateKey);
+    return !!signed.signature && protocol.verifySignature(signed, signed.signature, keys.publicKey);
+  });
+
+  // Test 3: Tampered message is rejected
+  runTest('Tampered message is rejected', () => {
+    const message = protocol.createConsensusMessage('node1', 'node2', 'hello', GeometricType.TETRAHEDRON);
+    const signed = protocol.signMessage(message, keys.privateKey);
+    const tampered = { ...signed, content: 'goodbye' };
+    return !protocol.verifySignature(tampered, signed.signature!, keys.publicKey);
+  });
+
+  // Test 4: Wrong key is rejected
+  runTest('Signature from another key is rejected', () => {
+    const message = protocol.createConsensusMessage('node1', 'node2', 'hello', GeometricType.CUBE);
+    const signed = protocol.signMessage(message, otherKeys.privateKey);
+    return !protocol.verifySignature(signed, signed.signature!, keys.publicKey);
+  });
+
+  // Test 5: Forged placeholder signatures are rejected
+  runTest('Forged placeholder signature is rejected', () => {
+    const message = protocol.createConsensusMessage('node1', 'node2', 'hello', GeometricType.CUBE);
+    return !protocol.verifySignature(message, 'sig-forged', keys.publicKey);
+  });
+
+  // Test 6: Vote signatures cover the vote value
+  runTest('Vote signature covers vote value', () => {
+    const vote = protocol.signVote(
+      protocol.createConsensusVote('prop-1', 'node1', true, 'looks good'),
+      keys.privateKey
+    );
+    const flipped = { ...vote, agrees: false };
+    return protocol.verifyVoteSignature(vote, keys.publicKey) &&
+           !protocol.verifyVoteSignature(flipped, keys.publicKey);
+  });
+
+  // Test 7: Unsigned vote never verifies
+  runTest('Unsigned vote is rejected', () => {
+    const vote = protocol.createConsensusVote('prop-1', 'node1', true);
+    return !protocol.verifyVoteSignature(vote, keys.publicKey);
+  });
+
+  // Test 8: Signature survives JSON round-trip
+  runTest('Signature survives JSON round-trip', () => {
+    const message = protocol.signMessage(
+      protocol.createConsensusMessage('node1', 'node2', 'hello', GeometricType.OCTAHEDRON),
+      keys.privateKey
+    );
+    const decoded = protocol.deserializeMessage(protocol.serializeMessage(message));
+    return protocol.verifySignature(decoded, decoded.signature!, keys.publicKey);
+  });
+
+  // Test 9: Key rotation keeps history, revocation removes trust
+  runTest('Key registry rotation and revocation', () => {
+    const registry = new InMemoryKeyRegistry([
+      { id: 'node1', publicKey: keys.publicKey, status: 'active', validFrom: '2026-01-01T00:00:00.000Z' }
+    ]);
+    const before = '2025-12-01T00:00:00.000Z';
+    const registeredAt = '2026-02-01T00:00:00.000Z';
+    registry.rotate('node1', otherKeys.publicKey);
+
+    const rotatedOk = registry.getActiveKey('node1') === otherKeys.publicKey &&
+                      !registry.isTrusted('node1', keys.publicKey) &&
+                      registry.isTrusted('node1', keys.publicKey, registeredAt) &&
+                      !registry.isTrusted('node1', keys.publicKey, before);
+
+    registry.revoke('node1');
+    return rotatedOk &&
+           registry.getActiveKey('node1') === undefined &&
+           !registry.isTrusted('node1', keys.publicKey, registeredAt) &&
+           registry.getHistory('node1').every(r => r.status === 'revoked');
+  });
+
+  // Test 10: Proposal processing drops votes from unknown or revoked keys
+  runTest('Proposal processing drops unregistered votes', () => {
+    const voterKeys = [generateSigningKeyPair(), generateSigningKeyPair(), generateSigningKeyPair()];
+    const registry = new InMemoryKeyRegistry();
+    registry.register('a', voterKeys[0].publicKey);
+    registry.register('b', voterKeys[1].publicKey);
+    registry.register('c', voterKeys[2].publicKey);
+    registry.revoke('c');
+
+    const registeredProtocol = new GeometricProtocol(registry);
+    const proposal = registeredProtocol.createConsensusProposal('a', GeometricType.TRIANGLE, ['a', 'b', 'c', 'd'], 'adopt', 'test');
+    const votes = [
+      registeredProtocol.signVote(registeredProtocol.createConsensusVote(proposal.proposalId, 'a', true), voterKeys[0].privateKey),
+      registeredProtocol.signVote(registeredProtocol.createConsensusVote(proposal.proposalId, 'b', true), voterKeys[0].privateKey),
+      registeredProtocol.signVote(registeredProtocol.createConsensusVote(proposal.proposalId, 'c', true), voterKeys[2].privateKey),
+      registeredProtocol.createConsensusVote(proposal.proposalId, 'd', true)
+    ];
+
+    const result = registeredProtocol.processConsensusProposal(proposal, votes);
+    return result.validVotes.length === 1 && result.validVotes[0].voter === 'a';
+  });
+
+  // Test 11: Re-created votes share a content-addressed ID
+  runTest('Same vote resent keeps the same ID', () => {
+    const first = protocol.createConsensusVote('prop-1', 'node1', true, 'ok');
+    const second = protocol.createConsensusVote('prop-1', 'node1', true, 'ok');
+    const different = protocol.createConsensusVote('prop-1', 'node1', false, 'ok');
+    return first.voteId === second.voteId && first.voteId !== different.voteId;
+  });
+
+  // Test 12: Random IDs are well-formed UUIDv7 and time-ordered
+  runTest('UUIDv7 IDs are well-formed and ordered', () => {
+    const earlier = uuidv7(1700000000000);
+    const later = uuidv7(1700000000001);
+    const pattern = /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+    return pattern.test(earlier) && pattern.test(later) && earlier < later &&
+           contentId('x', { a: 1, b: 2 }) === contentId('x', { b: 2, a: 1 });
+  });
+
+  // Test 13: Repeated votes from one voter count once
+  runTest('Repeated votes count once', () => {
+    const proposal = protocol.createConsensusProposal('a', GeometricType.TETRAHEDRON, ['a', 'b', 'c', 'd'], 'adopt', 'test');
+    const votes = Array.from({ length: 5 }, () => protocol.createConsensusVote(proposal.proposalId, 'a', true));
+    const result = protocol.processConsensusProposal(proposal, votes);
+    return result.status === 'pending' && result.agreementCount === 1 && result.validVotes.length === 1;
+  });
+
+  // Test 14: Conflicting votes are reported and not counted
+  runTest('Equivocating voter is excluded', () => {
+    const proposal = protocol.createConsensusProposal('a', GeometricType.TETRAHEDRON, ['a', 'b'], 'adopt', 'test');
+    const yes = protocol.signVote(protocol.createConsensusVote(proposal.proposalId, 'a', true), keys.privateKey);
+    const no = protocol.signVote(protocol.createConsensusVote(proposal.proposalId, 'a', false), keys.privateKey);
+    const other = protocol.createConsensusVote(proposal.proposalId, 'b', true);
+
+    const { evidence } = protocol.deduplicateVotes([yes, no, other]);
+    const result = protocol.processConsensusProposal(proposal, [yes, no, other]);
+
+    return evidence.length === 1 &&
+           evidence[0].firstVote.signature === yes.signature &&
+           evidence[0].conflictingVote.signature === no.signature &&
+           result.equivocators.join(',') === 'a' &&
+           result.agreementCount === 1 &&
+           result.status === 'failed';
+  });
+
+  // Test 15: Oversized payloads are fragmented and reassembled
+  runTest('Transport fragments and reassembles large payloads', () => {
+    const options = { maxMessageSize: 512, timeout: 1000, retryAttempts: 2 };
+    const toReceiver: Buffer[] = [];
+    const toSender: Buffer[] = [];
+    const sender = new ReliableTransport(datagram => toReceiver.push(datagram), options);
+    const receiver = new ReliableTransport(datagram => toSender.push(datagram), options);
+
+    const proposal = protocol.createConsensusProposal(
+      'a', GeometricType.SIX_HUNDRED_CELL, Array.from({ length: 120 }, (_, i) => `vertex-${i}`), 'adopt', 'test'
+    );
+    const payload = Buffer.from(JSON.stringify(proposal));
+    sender.send(payload, '127.0.0.1', 3000).catch(() => undefined);
+
+    // Deliver fragments out of order, with one duplicate
+    const delivered = [...toReceiver.reverse(), toReceiver[0]]
+      .map(datagram => receiver.receive(datagram, '127.0.0.1', 3001))
+      .filter((buffer): buffer is Buffer => buffer !== null);
+    toSender.forEach(ack => sender.receive(ack, '127.0.0.1', 3000));
+
+    const fitsDatagrams = toReceiver.every(datagram => datagram.length <= options.maxMessageSize);
+    const acknowledged = sender.getPendingCount() === 0;
+    sender.close();
+    receiver.close();
+
+    return toReceiver.length > 1 && fitsDatagrams && acknowledged &&
+           delivered.length === 1 && delivered[0].equals(payload);
+  });
+
+  // Test 16: Unacknowledged sends stay pending until closed
+  runTest('Transport keeps unacknowledged sends pending', () => {
+    const sender = new ReliableTransport(() => undefined, { maxMessageSize: 512, timeout: 1000, retryAttempts: 2 });
+    sender.send(Buffer.from('hello'), '127.0.0.1', 3000).catch(() => undefined);
+    const pending = sender.getPendingCount() === 1;
+    sender.close();
+    return pending && sender.getPendingCount() === 0;
+  });
+
+  // Test 17: Failure detector moves silent peers through suspect and leave
+  runTest('Failure detector suspects and removes silent peers', () => {
+    const detector = new FailureDetector({ suspectTimeout: 1000, failureTimeout: 3000 });
+    const joined = detector.heartbeat('a', 0);
+    detector.heartbeat('b', 0);
+    detector.heartbeat('b', 1500);
+
+    const suspected = detector.check(1500);
+    const left = detector.check(3500);
+    const rejoined = detector.heartbeat('a', 4000);
+
+    return joined?.type === 'join' && joined.previousStatus === undefined &&
+           suspected.length === 1 && suspected[0].type === 'suspect' && suspected[0].nodeId === 'a' &&
+           left.map(e => `${e.type}:${e.nodeId}`).join(',') === 'leave:a,suspect:b' &&
+           detector.getStatus('b') === 'inactive' &&
+           rejoined?.type === 'join' && rejoined.previousStatus === 'partitioned' &&
+           detector.heartbeat('a', 4100) === null;
+  });
+
+  // Test 18: Topology combines measured links with gossip
+  runTest('Topology tracker measures links and merges gossip', () => {
+    const node = (id: string, status: NetworkNode['status'] = 'active'): NetworkNode => ({
+      id, address: '127.0.0.1', port: 0, capabilities: [], status, lastSeen: new Date(0).toISOString()
+    });
+    const tracker = new TopologyTracker('a', protocol);
+
+    // b echoes a heartbeat a sent at t=1000, after holding it for 10ms: RTT 40ms
+    tracker.recordHeartbeat('b', { sentAt: 5000, echoes: { a: { sentAt: 1000, heldFor: 10 } } }, 1050);
+    const [edge] = tracker.getLocalEdges([node('b')]);
+
+    // c has left a's view, but b still reports a link to it
+    const split = tracker.build(node('a'), [node('b'), node('c', 'partitioned')]);
+    tracker.mergeReport('b', [{ ...edge, id: 'b-c', from: 'b', to: 'c' }, { ...edge, id: 'c-d', from: 'c', to: 'd' }]);
+    const bridged = tracker.build(node('a'), [node('b'), node('c', 'partitioned')]);
+
+    return edge.latency === 20 &&
+           tracker.heartbeatTiming(1060).echoes.b.heldFor === 10 &&
+           split.bettiNumbers.beta_0 === 2 &&
+           bridged.bettiNumbers.beta_0 === 1 && bridged.edges.length === 2;
+  });
+
+  // Test 19: Settled proposals are swept after the retention period
+  runTest('Proposal lifecycle sweeps settled proposals', () => {
+    const expired: string[] = [];
+    const lifecycle = new ProposalLifecycle(id => expired.push(id), 1000);
+    const first = protocol.createConsensusProposal('a', GeometricType.TETRAHEDRON, ['a', 'b', 'c', 'd'], 'adopt', 'test');
+    const second = protocol.createConsensusProposal('a', GeometricType.TETRAHEDRON, ['a', 'b', 'c', 'd'], 'adopt', 'test');
+    lifecycle.schedule(first);
+    lifecycle.schedule(second);
+
+    lifecycle.settle(first.proposalId, 0);
+    lifecycle.settle(second.proposalId, 500);
+    const early = lifecycle.sweep(999);
+    const due = lifecycle.sweep(1000);
+    const again = lifecycle.sweep(5000);
+    lifecycle.clear();
+
+    return early.length === 0 &&
+           due.join(',') === first.proposalId &&
+           again.join(',') === second.proposalId &&
+           expired.length === 0;
+  });
+
+  // Test 20: Proposal thresholds come from the shape registry
+  runTest('Proposal thresholds match the shape registry', () => {
+    const participants = Array.from({ length: 24 }, (_, i) => `n${i}`);
+    const proposal = protocol.createConsensusProposal('n0', GeometricType.TRUNCATED_CUBE, participants, 'adopt', 'test');
+    const message = protocol.createConsensusMessage('n0', 'n1', 'hello', GeometricType.SIX_HUNDRED_CELL);
+    return proposal.requiredAgreement === Math.ceil(24 * GEOMETRIC_SHAPES.TRUNCATED_CUBE.threshold) &&
+           message.geometricMetadata.threshold === GEOMETRIC_SHAPES.SIX_HUNDRED_CELL.threshold &&
+           message.geometricMetadata.consensusLevel === 'federation';
+  });
+
+  // Test 21: Custom shape types travel by name
+  runTest('Custom shape types in protocol messages', () => {
+    registerShape({
+      ...GEOMETRIC_SHAPES.TRIANGLE,
+      type: 'TRIAD',
+      name: 'Triad',
+      dual: 'TRIAD',
+      threshold: 0.666,
+      context: 'global'
+    });
+    try {
+      const proposal = protocol.createConsensusProposal('a', 'TRIAD', ['a', 'b', 'c'], 'adopt', 'test');
+      const message = JSON.parse(JSON.stringify(protocol.createConsensusMessage('a', 'b', 'hello', 'TRIAD')));
+      return proposal.geometricType === 'TRIAD' && proposal.requiredAgreement === 2 &&
+             message.shape === 'TRIAD' &&
+             message.geometricMetadata.geometricType === 'TRIAD' &&
+             message.geometricMetadata.consensusLevel === 'global' &&
+             protocol.validateMessage(message);
+    } finally {
+      unregisterShape('TRIAD');
+    }
+  });
+
+  // Test 22: Thresholds apply to the total weight the proposal assigns
+  runTest('Weighted votes are counted against total weight', () => {
+    const members = ['a', 'b', 'c', 'd'];
+    const staked = (weights: number[]) => protocol.createConsensusProposal(
+      'a', GeometricType.CUBE, members, 'adopt', 'test', 30, 'count',
+      Object.fromEntries(members.map((member, i) => [member, weights[i]]))
+    );
+    const ballots = (proposal: { proposalId: string }, agreeing: boolean[]) =>
+      members.map((voter, i) => protocol.createConsensusVote(proposal.proposalId, voter, agreeing[i]));
+
+    // Half the heads agree, but they hold most of the stake and vice versa
+    const whaleProposal = staked([3, 1, 1, 1]);
+    const minnowProposal = staked([0.5, 1, 3, 3]);
+    const whales = protocol.processConsensusProposal(whaleProposal, ballots(whaleProposal, [true, false, false, false]));
+    const minnows = protocol.processConsensusProposal(minnowProposal, ballots(minnowProposal, [true, true, false, false]));
+    const rejects = (weights: Record<string, number>) => {
+      try {
+        protocol.createConsensusProposal('a', GeometricType.CUBE, members, 'adopt', 'test', 30, 'count', weights);
+        return false;
+      } catch (error) {
+        return true;
+      }
+    };
+
+    return whales.status === 'achieved' && whales.agreementCount === 3 && whales.requiredCount === 3 &&
+           minnows.status === 'failed' && minnows.agreementCount === 1.5 && minnows.requiredCount === 3.75 &&
+           rejects({ a: -5 }) && rejects({ outsider: 2 });
+  });
+
+  // Test 23: Vote values, abstention rules and delegation in proposals
+  runTest('Abstain, veto and delegated protocol votes', () => {
+    const members = ['a', 'b', 'c', 'd'];
+    const must = protocol.createConsensusProposal('a', GeometricType.TETRAHEDRON, members, 'adopt', 'test');
+    const mustExcluding = protocol.createConsensusProposal('a', GeometricType.TETRAHEDRON, members, 'adopt', 'test', 30, 'exclude');
+    const may = protocol.createConsensusProposal('a', GeometricType.CUBE, members, 'adopt', 'test');
+    const ballot = (proposal: typeof must, voter: string, value: boolean | 'abstain' | 'veto', delegateTo?: string) =>
+      protocol.createConsensusVote(proposal.proposalId, voter, value, undefined, delegateTo);
+
+    const vetoed = protocol.processConsensusProposal(must, [ballot(must, 'a', true), ballot(must, 'd', 'veto')]);
+    const abstainCounted = protocol.processConsensusProposal(must, ['a', 'b', 'c'].map(v => ballot(must, v, true)).concat(ballot(must, 'd', 'abstain')));
+    const abstainExcluded = protocol.processConsensusProposal(
+      mustExcluding,
+      ['a', 'b', 'c'].map(v => ballot(mustExcluding, v, true)).concat(ballot(mustExcluding, 'd', 'abstain'))
+    );
+    const delegated = protocol.processConsensusProposal(may, [ballot(may, 'a', true), ballot(may, 'b', false, 'a')]);
+    const unknownValue = protocol.processConsensusProposal(may, [{ ...ballot(may, 'a', true), vote: 'maybe' as any }]);
+
+    return vetoed.status === 'failed' && vetoed.vetoedBy.join() === 'd' &&
+           abstainCounted.status === 'failed' &&
+           abstainExcluded.status === 'achieved' && abstainExcluded.requiredCount === 3 &&
+           delegated.status === 'achieved' && delegated.agreementCount === 2 &&
+           protocol.isConflictingVote(ballot(may, 'b', false), ballot(may, 'b', false, 'a')) &&
+           unknownValue.validVotes.length === 0;
+  });
+
+  // Test 24: A ballot cannot raise its own weight
+  runTest('Inflated ballot weight does not carry a proposal', () => {
+    const members = Array.from({ length: 8 }, (_, i) => `n${i}`);
+    const plain = protocol.createConsensusProposal('n0', GeometricType.CUBE, members, 'adopt', 'test');
+    const staked = protocol.createConsensusProposal('n0', GeometricType.CUBE, members, 'adopt', 'test', 30, 'count', { n0: 2 });
+
+    // As received off the wire: the voter claims weight 1000 in its own ballot
+    const inflated = (proposalId: string) =>
+      JSON.parse(JSON.stringify({ ...protocol.createConsensusVote(proposalId, 'n0', true), weight: 1000 })) as ConsensusVote;
+
+    const alone = protocol.processConsensusProposal(plain, [inflated(plain.proposalId)]);
+    const stakedAlone = protocol.processConsensusProposal(staked, [inflated(staked.proposalId)]);
+
+    return alone.status === 'pending' && alone.agreementCount === 1 &&
+           stakedAlone.status === 'pending' && stakedAlone.agreementCount === 2;
+  });
+
+  // Test 25: A restarted sender is not mistaken for retransmissions
+  runTest('Transport delivers after the sender restarts', () => {
+    const options = { maxMessageSize: 512, timeout: 1000, retryAttempts: 2 };
+    const toReceiver: Buffer[] = [];
+    const receiver = new ReliableTransport(() => undefined, options);
+    const deliver = () => toReceiver.splice(0)
+      .map(datagram => receiver.receive(datagram, '127.0.0.1', 3001))
+      .filter((buffer): buffer is Buffer => buffer !== null)
+      .map(buffer => buffer.toString());
+
+    // Both processes start at sequence number 1 on the same address
+    const before = new ReliableTransport(datagram => toReceiver.push(datagram), options);
+    before.send(Buffer.from('first'), '127.0.0.1', 3000, false);
+    const firstRun = deliver();
+    before.close();
+
+    const after = new ReliableTransport(datagram => toReceiver.push(datagram), options);
+    after.send(Buffer.from('second'), '127.0.0.1', 3000, false);
+    const secondRun = deliver();
+    after.close();
+    receiver.close();
+
+    return firstRun.join() === 'first' && secondRun.join() === 'second';
+  });
+
+  // Test 26: Nodes cannot announce proposals on behalf of others
+  runTest('Proposal relayed under another proposer is rejected', () => {
+    const receiver = createServer('bob');
+    const alice = createServer('alice');
+    const mallory = createServer('mallory');
+    const members = ['alice', 'bob', 'carol', 'mallory'];
+    const forged = protocol.createConsensusProposal('alice', GeometricType.TETRAHEDRON, members, 'adopt', 'test');
+    const genuine = protocol.createConsensusProposal('alice', GeometricType.TETRAHEDRON, members, 'adopt', 'test');
+
+    deliver(receiver, mallory['createNetworkMessage']('consensus_proposal', forged));
+    deliver(receiver, alice['createNetworkMessage']('consensus_proposal', genuine));
+
+    const proposals = receiver.getConsensusState().proposals;
+    [receiver, alice, mallory].forEach(server => void server.stop());
+
+    return !proposals.has(forged.proposalId) && proposals.has(genuine.proposalId);
+  });
+
+  // Test 27: A vote that overtakes its proposal is counted when the proposal arrives
+  runTest('Vote arriving before its proposal is counted', () => {
+    const receiver = createServer('bob');
+    const alice = createServer('alice');
+    const carol = createServer('carol');
+    const eve = createServer('eve');
+    const proposal = protocol.createConsensusProposal('alice', GeometricType.TETRAHEDRON, ['alice', 'bob', 'carol', 'dave'], 'adopt', 'test');
+    const sendVote = (server: UDPGeometricServer) => {
+      const vote = protocol.signVote(
+        protocol.createConsensusVote(proposal.proposalId, server.getNodeId(), true),
+        server['signingKeys'].privateKey
+      );
+      deliver(receiver, server['createNetworkMessage']('consensus_vote', vote));
+    };
+
+    sendVote(carol);
+    sendVote(eve);  // Not a participant
+    const heldBeforeProposal = receiver.getConsensusState().votes.has(proposal.proposalId);
+    deliver(receiver, alice['createNetworkMessage']('consensus_proposal', proposal));
+
+    const voters = (receiver.getConsensusState().votes.get(proposal.proposalId) || []).map(v => v.voter);
+    [receiver, alice, carol, eve].forEach(server => void server.stop());
+
+    return !heldBeforeProposal && voters.join() === 'carol';
+  });
+
+  // Test 28: Early votes are bounded in number, age and by the proposal's expiry
+  runTest('Early vote buffer is bounded', () => {
+    const proposal = protocol.createConsensusProposal('a', GeometricType.TETRAHEDRON, ['a', 'b', 'c', 'd'], 'adopt', 'test');
+    const other = protocol.createConsensusProposal('a', GeometricType.TETRAHEDRON, ['a', 'b', 'c', 'd'], 'adopt', 'test');
+    const expiresAt = new Date(proposal.expirationTime).getTime();
+    const ballot = (voter: string) => protocol.createConsensusVote(proposal.proposalId, voter, true);
+
+    const full = new EarlyVoteBuffer(2, 60000);
+    ['b', 'c', 'd'].forEach((voter, i) => full.add(ballot(voter), expiresAt - 3000 + i));
+    full.add(protocol.createConsensusVote(other.proposalId, 'b', true), expiresAt - 1000);
+    const keptNewest = full.take(proposal, expiresAt - 1000).map(v => v.voter);
+
+    const aged = new EarlyVoteBuffer(8, 1000);
+    aged.add(ballot('b'), expiresAt - 5000);
+    aged.add(ballot('c'), expiresAt - 500);
+    const keptFresh = aged.take(proposal, expiresAt).map(v => v.voter);
+
+    const late = new EarlyVoteBuffer(8, 60000);
+    late.add(ballot('b'), expiresAt - 10);
+    late.add(ballot('c'), expiresAt + 10);
+    const keptBeforeExpiry = late.take(proposal, expiresAt + 20).map(v => v.voter);
+
+    return keptNewest.join() === 'd' && full.size() === 1 &&
+           keptFresh.join() === 'c' && aged.size() === 0 &&
+           keptBeforeExpiry.join() === 'b';
+  });
+
+  console.log(`\nGeometric Protocol Tests: ${testsPassed}/${testsTotal} passed`);
+  return testsPassed === testsTotal;
+}
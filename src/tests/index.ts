@@ -7,6 +7,7 @@ import { testGeometricConsensus } from './geometric-consensus.test.js';
 import { testBettiNumbers } from './betti-numbers.test.js';
 import { testIPv6Encoder } from './ipv6-encoder.test.js';
 import { testIntegration } from './integration.test.js';
+import { testGeometricProtocol } from './geometric-protocol.test.js';
 
 /**
  * Runs all test suites and reports results.
@@ -40,6 +41,13 @@ export async function runAllTests(): Promise<boolean> {
 
   console.log('\n' + '='.repeat(50) + '\n');
 
+  console.log('Running Geometric Protocol Tests...');
+  const protocolPassed = testGeometricProtocol();
+  testResults.push({ name: 'Geometric Protocol', passed: protocolPassed });
+  allTestsPassed = allTestsPassed && protocolPassed;
+
+  console.log('\n' + '='.repeat(50) + '\n');
+
   console.log('Running Integration Tests...');
   const integrationPassed = await testIntegration();
   testResults.push({ name: 'Integration', passed: integrationPassed });
@@ -85,13 +93,16 @@ export async function runTest(testName: string): Promise<boolean> {
     case 'encoder':
     case 'ipv6-encoder':
       return testIPv6Encoder();
+    case 'protocol':
+    case 'geometric-protocol':
+      return testGeometricProtocol();
     case 'integration':
       return await testIntegration();
     case 'all':
       return runAllTests();
     default:
       console.error(`Unknown test suite: ${testName}`);
-      console.log('Available test suites: consensus, betti, encoder, integration, all');
+      console.log('Available test suites: consensus, betti, encoder, protocol, integration, all');
       return false;
   }
 }
@@ -116,6 +127,7 @@ export function runTestsWithMetrics(): {
     { name: 'Geometric Consensus', fn: testGeometricConsensus },
     { name: 'Betti Numbers', fn: testBettiNumbers },
     { name: 'IPv6 Encoder', fn: testIPv6Encoder },
+    { name: 'Geometric Protocol', fn: testGeometricProtocol },
     { name: 'Integration', fn: testIntegration }
   ];
 
@@ -4,6 +4,10 @@ import { DualPartitionRecovery } from '../phase1-geometric-consensus/dual-recove
 import { IPv6NeuralEncoder, NeuralArchitecture } from '../phase2-ipv6-neural/ipv6-encoder.js';
 import { BrowserModelRuntime, ForwardPassResult } from '../phase2-ipv6-neural/browser-model-runtime.js';
 import { GeometricType } from '../phase1-geometric-consensus/geometric-types.js';
+import { JsonFileKeyRegistry } from '../crypto/key-registry.js';
+import { generateSigningKeyPair } from '../crypto/signatures.js';
+import * as os from 'os';
+import * as path from 'path';
 
 /**
  * Integration test suite that tests how all components work together.
@@ -19,6 +23,7 @@ export async function testIntegration(): Promise<boolean> {
 
   let testsPassed = 0;
   let testsTotal = 0;
+  const pendingTests: Promise<void>[] = [];  // Async tests, awaited before the summary
 
   // Helper function to run a test
   function runTest(testName: string, testFn: () => Promise<boolean> | boolean): void {
@@ -26,7 +31,7 @@ export async function testIntegration(): Promise<boolean> {
     try {
       const result = testFn();
       if (result instanceof Promise) {
-        result.then((asyncResult) => {
+        pendingTests.push(result.then((asyncResult) => {
           if (asyncResult) {
             console.log(`✅ ${testName}`);
             testsPassed++;
@@ -35,7 +40,7 @@ export async function testIntegration(): Promise<boolean> {
           }
         }).catch((error: Error) => {
           console.log(`❌ ${testName} - Error: ${error.message}`);
-        });
+        }));
       } else {
         if (result) {
           console.log(`✅ ${testName}`);
@@ -364,6 +369,25 @@ export async function testIntegration(): Promise<boolean> {
       .catch(() => false);
   });
 
+  // Test 9: A failed key registry write is reported, not left unhandled
+  runTest('Key registry write failure', async () => {
+    const registry = new JsonFileKeyRegistry(path.join(os.tmpdir(), `missing-${Date.now()}`, 'keys.json'));
+    const originalError = console.error;
+    console.error = () => undefined;
+
+    try {
+      registry.register('node1', generateSigningKeyPair().publicKey);
+      registry.register('node2', generateSigningKeyPair().publicKey);
+
+      const reported = await registry.flush().then(() => false, (error: Error) => error.message.includes('ENOENT'));
+      return reported && registry.getIds().length === 2;
+    } finally {
+      console.error = originalError;
+    }
+  });
+
+  await Promise.all(pendingTests);
+
   console.log(`\nIntegration Tests: ${testsPassed}/${testsTotal} passed`);
   return testsPassed === testsTotal;
 }